@@ -2,8 +2,16 @@ import { defineConfig } from "rolldown";
 import { dts } from "rolldown-plugin-dts";
 
 export default defineConfig({
-  input: "./src/index.ts",
+  input: {
+    index: "./src/index.ts",
+    node: "./src/node.ts",
+    // Loaded by HashPool as new URL("./parallel-worker.js", import.meta.url)
+    "parallel-worker": "./src/parallel-worker.ts",
+    "b3sum-jit": "./src/b3sum-cli.ts",
+  },
   platform: "neutral",
+  // Node.js builtins used by the node entry and the worker pool
+  external: [/^node:/],
   plugins: [dts()],
   output: {
     cleanDir: true,
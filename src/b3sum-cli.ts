@@ -0,0 +1,20 @@
+#!/usr/bin/env node
+/**
+ * b3sum-jit executable - runs b3sum() on the process's arguments and stdio
+ */
+
+import { b3sum } from "./b3sum.js";
+
+b3sum(process.argv.slice(2), {
+  stdin: process.stdin,
+  stdout: (data) => process.stdout.write(data),
+  stderr: (text) => process.stderr.write(text),
+}).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    process.stderr.write(`b3sum-jit: ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exitCode = 1;
+  },
+);
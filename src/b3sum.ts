@@ -0,0 +1,248 @@
+/**
+ * b3sum-jit - command-line tool compatible with the Rust `b3sum`
+ *
+ * The CLI logic takes its input and output streams as parameters, so it can
+ * run in-process (and be tested); b3sum-cli.ts wires it to the process.
+ */
+
+import { Buffer } from "node:buffer";
+import { createReadStream } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+
+import { version } from "../package.json";
+import { KEY_LEN, OUT_LEN } from "./constants.js";
+import { toHex } from "./digest.js";
+import { hashFile } from "./hash-file.js";
+import { hasherForOptions, type HashModeOptions } from "./hash-options.js";
+import { displayName, formatManifestLine, verifyManifest } from "./manifest.js";
+
+/**
+ * Standard streams used by the CLI.
+ */
+export interface B3sumIO {
+  /** Standard input */
+  stdin: AsyncIterable<Uint8Array>;
+  /** Write to standard output */
+  stdout(data: string | Uint8Array): void;
+  /** Write to standard error */
+  stderr(text: string): void;
+}
+
+const NAME = "b3sum-jit";
+// Read size when checking files: a multiple of 4 chunks, for the SIMD path
+const READ_SIZE = 1024 * 1024;
+
+const USAGE = `Usage: ${NAME} [OPTIONS] [FILE]...
+
+Print or check BLAKE3 checksums. With no FILE, or when FILE is -, read
+standard input.
+
+Options:
+      --keyed              Use the keyed mode, reading the 32-byte key from stdin
+      --derive-key <CONTEXT>
+                           Use the key derivation mode, with the given context string
+  -l, --length <LEN>       The number of output bytes, before hex encoding [default: 32]
+      --raw                Write raw output bytes to stdout, rather than hex
+      --tag                Output BSD-style checksums: BLAKE3 ([FILE]) = [HASH]
+      --no-names           Omit filenames in the output
+  -c, --check              Read BLAKE3 sums from the [FILE]s and check them
+      --quiet              Skip printing OK for each checked file
+  -h, --help               Print help
+  -V, --version            Print version
+`;
+
+/**
+ * A usage error: reported with a hint to --help, exit code 1.
+ */
+class UsageError extends Error {}
+
+async function readAll(input: AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  for await (const part of input) parts.push(part);
+  return Buffer.concat(parts);
+}
+
+async function hashStdin(io: B3sumIO, mode: HashModeOptions): Promise<Uint8Array> {
+  const { hasher, outputLength } = hasherForOptions(mode);
+  for await (const part of io.stdin) hasher.update(part);
+  return hasher.finalize(outputLength);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Print the checksums of `files`.
+ */
+async function printSums(
+  files: string[],
+  io: B3sumIO,
+  mode: HashModeOptions,
+  flags: { raw: boolean; tag: boolean; noNames: boolean },
+): Promise<number> {
+  let exitCode = 0;
+  for (const file of files) {
+    let digest: Uint8Array;
+    try {
+      digest = file === "-" ? await hashStdin(io, mode) : await hashFile(file, mode);
+    } catch (error) {
+      io.stderr(`${NAME}: ${file}: ${errorMessage(error)}\n`);
+      exitCode = 1;
+      continue;
+    }
+
+    if (flags.raw) {
+      io.stdout(digest);
+      continue;
+    }
+    if (flags.noNames) {
+      io.stdout(`${toHex(digest)}\n`);
+      continue;
+    }
+    io.stdout(formatManifestLine(file, digest, flags.tag ? "bsd" : "gnu"));
+  }
+  return exitCode;
+}
+
+/**
+ * Check the checksum lines of each checksum file in `files`.
+ */
+async function checkSums(files: string[], io: B3sumIO, quiet: boolean): Promise<number> {
+  let exitCode = 0;
+  let failures = 0;
+
+  for (const file of files) {
+    let text: string;
+    try {
+      const bytes = file === "-" ? await readAll(io.stdin) : await readFile(file);
+      text = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString("utf8");
+    } catch (error) {
+      io.stderr(`${NAME}: ${file}: ${errorMessage(error)}\n`);
+      exitCode = 1;
+      continue;
+    }
+
+    await verifyManifest(text, (name) => createReadStream(name, { highWaterMark: READ_SIZE }), {
+      onResult(result) {
+        if (result.status === "malformed") {
+          io.stderr(`${NAME}: ${file}:${result.line}: Invalid checksum line\n`);
+          exitCode = 1;
+          return;
+        }
+        if (result.status === "ok") {
+          if (!quiet) io.stdout(`${displayName(result.name!)}: OK\n`);
+          return;
+        }
+        failures++;
+        exitCode = 1;
+        const reason = result.status === "missing" ? ` (${errorMessage(result.error)})` : "";
+        io.stdout(`${displayName(result.name!)}: FAILED${reason}\n`);
+      },
+    });
+  }
+
+  if (failures > 0) {
+    const noun = failures === 1 ? "checksum" : "checksums";
+    io.stderr(`${NAME}: WARNING: ${failures} computed ${noun} did NOT match\n`);
+  }
+  return exitCode;
+}
+
+/**
+ * Run b3sum-jit with command-line arguments `args` (without the program name).
+ *
+ * @returns The process exit code
+ */
+export async function b3sum(args: string[], io: B3sumIO): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        keyed: { type: "boolean" },
+        "derive-key": { type: "string" },
+        length: { type: "string", short: "l" },
+        raw: { type: "boolean" },
+        tag: { type: "boolean" },
+        "no-names": { type: "boolean" },
+        check: { type: "boolean", short: "c" },
+        quiet: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+        version: { type: "boolean", short: "V" },
+      },
+    });
+
+    if (values.help) {
+      io.stdout(USAGE);
+      return 0;
+    }
+    if (values.version) {
+      io.stdout(`${NAME} ${version}\n`);
+      return 0;
+    }
+
+    const files = positionals.length > 0 ? positionals : ["-"];
+
+    if (values.check) {
+      for (const option of ["keyed", "derive-key", "length", "raw", "tag", "no-names"] as const) {
+        if (values[option] !== undefined) {
+          throw new UsageError(`--${option} cannot be used with --check`);
+        }
+      }
+      return await checkSums(files, io, values.quiet ?? false);
+    }
+    if (values.quiet) {
+      throw new UsageError("--quiet requires --check");
+    }
+    if (values.keyed && values["derive-key"] !== undefined) {
+      throw new UsageError("--keyed cannot be used with --derive-key");
+    }
+    if (values.raw && files.length > 1) {
+      throw new UsageError("Only one filename can be provided when using --raw");
+    }
+    if (values.tag && values["no-names"]) {
+      throw new UsageError("--tag cannot be used with --no-names");
+    }
+
+    const mode: HashModeOptions = { outputLength: OUT_LEN };
+    if (values.length !== undefined) {
+      const length = Number(values.length);
+      if (!/^\d+$/.test(values.length) || !Number.isSafeInteger(length)) {
+        throw new UsageError(`Invalid length: ${values.length}`);
+      }
+      mode.outputLength = length;
+    }
+    if (values["derive-key"] !== undefined) {
+      mode.context = values["derive-key"];
+    }
+    if (values.keyed) {
+      if (files.includes("-")) {
+        throw new UsageError("Cannot hash stdin in --keyed mode: stdin holds the key");
+      }
+      const key = await readAll(io.stdin);
+      if (key.length !== KEY_LEN) {
+        io.stderr(`${NAME}: key bytes read from stdin: ${key.length}, expected ${KEY_LEN}\n`);
+        return 1;
+      }
+      mode.key = key;
+    }
+
+    return await printSums(files, io, mode, {
+      raw: values.raw ?? false,
+      tag: values.tag ?? false,
+      noNames: values["no-names"] ?? false,
+    });
+  } catch (error) {
+    const code = (error as { code?: unknown }).code;
+    if (
+      error instanceof UsageError ||
+      (typeof code === "string" && code.startsWith("ERR_PARSE_ARGS"))
+    ) {
+      io.stderr(`${NAME}: ${errorMessage(error)}\n\nFor more information, try '--help'.\n`);
+      return 1;
+    }
+    throw error;
+  }
+}
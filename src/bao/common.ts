@@ -0,0 +1,108 @@
+/**
+ * Bao tree layout shared by the encoder, decoder and slices.
+ *
+ * An encoding is an 8-byte little-endian content length followed by the
+ * BLAKE3 tree in pre-order: every parent node is 64 bytes (left CV, right
+ * CV), followed by its left subtree, then its right subtree. The combined
+ * encoding interleaves chunk data at the leaves; the outboard encoding
+ * holds only the parent nodes.
+ */
+
+import { CHUNK_LEN } from "../constants.js";
+
+/** Length of the content length header */
+export const HEADER_LEN = 8;
+/** Length of a parent node: left and right chaining values */
+export const PARENT_LEN = 64;
+
+/**
+ * Number of chunks in content of `contentLen` bytes (empty content is one chunk).
+ */
+export function chunkCount(contentLen: number): number {
+  return contentLen <= CHUNK_LEN ? 1 : Math.ceil(contentLen / CHUNK_LEN);
+}
+
+/**
+ * Length of the left subtree of a node covering `contentLen` bytes
+ * (more than one chunk): the largest power of two chunks less than the total.
+ */
+export function leftLen(contentLen: number): number {
+  const chunks = chunkCount(contentLen);
+  let left = 1;
+  while (left * 2 < chunks) left *= 2;
+  return left * CHUNK_LEN;
+}
+
+/**
+ * Size in bytes of the encoded tree (excluding the header) for a subtree of
+ * `contentLen` bytes.
+ */
+export function encodedSubtreeSize(contentLen: number, outboard: boolean): number {
+  const parents = (chunkCount(contentLen) - 1) * PARENT_LEN;
+  return outboard ? parents : parents + contentLen;
+}
+
+/**
+ * Write the 8-byte little-endian content length header.
+ */
+export function writeHeader(contentLen: number, output: Uint8Array, offset: number): void {
+  let low = contentLen >>> 0;
+  let high = Math.floor(contentLen / 0x100000000);
+  for (let i = 0; i < 4; i++) {
+    output[offset + i] = low & 0xff;
+    output[offset + 4 + i] = high & 0xff;
+    low >>>= 8;
+    high >>>= 8;
+  }
+}
+
+/**
+ * Read the 8-byte little-endian content length header.
+ * Returns -1 if the length does not fit in a safe integer.
+ */
+export function readHeader(input: Uint8Array, offset: number): number {
+  const low =
+    (input[offset] |
+      (input[offset + 1] << 8) |
+      (input[offset + 2] << 16) |
+      (input[offset + 3] << 24)) >>>
+    0;
+  const high =
+    (input[offset + 4] |
+      (input[offset + 5] << 8) |
+      (input[offset + 6] << 16) |
+      (input[offset + 7] << 24)) >>>
+    0;
+  // Content lengths are limited to Number.MAX_SAFE_INTEGER (2^53 - 1)
+  if (high >= 0x200000) return -1;
+  return high * 0x100000000 + low;
+}
+
+/**
+ * Content range [start, end) whose chunks a slice of `sliceLen` bytes at
+ * `sliceStart` includes. At least one byte is covered, and a start at or past
+ * the end selects the final chunk, which proves the content length.
+ */
+export function sliceCoverage(
+  contentLen: number,
+  sliceStart: number,
+  sliceLen: number,
+): { start: number; end: number } {
+  if (sliceStart >= contentLen) {
+    const start = Math.max(contentLen - 1, 0);
+    return { start, end: start + 1 };
+  }
+  return { start: sliceStart, end: Math.min(contentLen, sliceStart + Math.max(sliceLen, 1)) };
+}
+
+/**
+ * Check that a slice start and length are non-negative safe integers.
+ */
+export function validateSlice(sliceStart: number, sliceLen: number): void {
+  if (!Number.isSafeInteger(sliceStart) || sliceStart < 0) {
+    throw new Error(`Invalid slice start: ${sliceStart}`);
+  }
+  if (!Number.isSafeInteger(sliceLen) || sliceLen < 0) {
+    throw new Error(`Invalid slice length: ${sliceLen}`);
+  }
+}
@@ -0,0 +1,375 @@
+/**
+ * Bao decoder - incremental verification of combined and outboard encodings
+ *
+ * Every parent node is checked against the chaining value its parent
+ * vouched for, and every chunk against its own, before any of its bytes are
+ * released. The root is checked against the trusted 32-byte hash.
+ */
+
+import { compress } from "../compress.js";
+import { IV, PARENT, ROOT, BLOCK_LEN, CHUNK_LEN, OUT_LEN, MAX_DEPTH } from "../constants.js";
+import { hash, hashChunkWithWords } from "../hash.js";
+import { readLittleEndianWords, readLittleEndianWordsFull } from "../utils.js";
+import {
+  HEADER_LEN,
+  PARENT_LEN,
+  encodedSubtreeSize,
+  leftLen,
+  readHeader,
+  sliceCoverage,
+  validateSlice,
+} from "./common.js";
+
+/**
+ * Thrown when a chunk or parent node does not match its expected chaining
+ * value: the encoding was corrupted or tampered with.
+ */
+export class BaoIntegrityError extends Error {
+  /** Content offset of the chunk or subtree that failed verification */
+  readonly offset: number;
+
+  constructor(message: string, offset: number) {
+    super(message);
+    this.name = "BaoIntegrityError";
+    this.offset = offset;
+  }
+}
+
+// ===== Module-level reusable buffers (single-threaded safe) =====
+const parentBlock = new Uint32Array(16);
+const nodeCv = new Uint32Array(8);
+
+function cvEquals(a: Uint32Array, aOffset: number, b: Uint32Array, bOffset: number): boolean {
+  for (let i = 0; i < 8; i++) {
+    if (a[aOffset + i] !== b[bOffset + i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Pull-based Bao decoder. Feed encoded bytes with push() as they arrive and
+ * take verified content with read().
+ *
+ * In outboard mode the tree comes from the outboard encoding given to the
+ * constructor, and push() takes the raw content. Decoders created with
+ * Decoder.forSlice() take a slice and output only the requested range.
+ *
+ * @example
+ * ```typescript
+ * const decoder = new bao.Decoder(rootHash);
+ * for await (const packet of packets) {
+ *   decoder.push(packet);
+ *   sink.write(decoder.read()); // verified bytes only
+ * }
+ * decoder.finish(); // throws if the stream was truncated
+ * ```
+ */
+export class Decoder {
+  private rootWords: Uint32Array;
+  private outboard: Uint8Array | null;
+  private outboardPos: number;
+  private contentLen: number;
+
+  // Unconsumed input: pending[pendingStart, pendingEnd)
+  private pending: Uint8Array;
+  private pendingStart: number;
+  private pendingEnd: number;
+  private verified: Uint8Array[];
+
+  // Requested content range, and the chunk range a slice covers
+  private sliceStart: number;
+  private sliceLen: number;
+  private coverStart: number;
+  private coverEnd: number;
+
+  // Subtrees still to verify, in pre-order (the top is next): expected CV,
+  // content offset and length
+  private nodeCvs: Uint32Array;
+  private nodeOffsets: Float64Array;
+  private nodeLens: Float64Array;
+  private stackLen: number;
+
+  /**
+   * @param rootHash - Trusted 32-byte root hash
+   * @param outboard - Outboard encoding, for decoding raw content
+   */
+  constructor(rootHash: Uint8Array, outboard?: Uint8Array) {
+    if (rootHash.length !== OUT_LEN) {
+      throw new Error(`Root hash must be ${OUT_LEN} bytes, got ${rootHash.length}`);
+    }
+    this.rootWords = new Uint32Array(8);
+    readLittleEndianWords(rootHash, 0, this.rootWords, 8);
+    this.outboard = outboard ?? null;
+    this.outboardPos = 0;
+    this.contentLen = -1;
+    this.pending = new Uint8Array(CHUNK_LEN + PARENT_LEN);
+    this.pendingStart = 0;
+    this.pendingEnd = 0;
+    this.verified = [];
+    this.sliceStart = 0;
+    this.sliceLen = Number.POSITIVE_INFINITY;
+    this.coverStart = 0;
+    this.coverEnd = 0;
+    this.nodeCvs = new Uint32Array((MAX_DEPTH + 1) * 8);
+    this.nodeOffsets = new Float64Array(MAX_DEPTH + 1);
+    this.nodeLens = new Float64Array(MAX_DEPTH + 1);
+    this.stackLen = 0;
+
+    if (this.outboard) this.readOutboardHeader(this.outboard);
+  }
+
+  /**
+   * Create a decoder for a slice extracted with extractSlice(). Only the
+   * bytes of the requested range are output.
+   *
+   * @param rootHash - Trusted 32-byte root hash
+   * @param sliceStart - Content offset the slice was extracted at
+   * @param sliceLen - Length the slice was extracted with
+   */
+  static forSlice(rootHash: Uint8Array, sliceStart: number, sliceLen: number): Decoder {
+    validateSlice(sliceStart, sliceLen);
+    const decoder = new Decoder(rootHash);
+    decoder.sliceStart = sliceStart;
+    decoder.sliceLen = sliceLen;
+    return decoder;
+  }
+
+  /**
+   * Content length from the header, or -1 until the header has arrived.
+   * The length is authenticated once the final chunk has been verified.
+   */
+  get contentLength(): number {
+    return this.contentLen;
+  }
+
+  /**
+   * Whether all content has been verified.
+   */
+  get done(): boolean {
+    return this.contentLen >= 0 && this.stackLen === 0;
+  }
+
+  /**
+   * Feed the next bytes of the encoding (or of the content, in outboard mode)
+   * and verify as much as possible.
+   *
+   * @throws BaoIntegrityError if a chunk or parent node does not verify
+   */
+  push(bytes: Uint8Array): this {
+    if (this.done && bytes.length > 0) {
+      throw new Error("Unexpected data after the end of the Bao encoding");
+    }
+    this.append(bytes);
+    this.process();
+    if (this.done && this.pendingEnd > this.pendingStart) {
+      throw new Error("Unexpected data after the end of the Bao encoding");
+    }
+    return this;
+  }
+
+  /**
+   * Take the content verified so far (may be empty).
+   */
+  read(): Uint8Array {
+    const verified = this.verified;
+    if (verified.length === 1) {
+      this.verified = [];
+      return verified[0];
+    }
+
+    let total = 0;
+    for (const part of verified) total += part.length;
+    const result = new Uint8Array(total);
+    let offset = 0;
+    for (const part of verified) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    this.verified = [];
+    return result;
+  }
+
+  /**
+   * Check that the whole encoding has arrived and take the remaining
+   * verified content.
+   *
+   * @throws Error if the encoding was truncated
+   */
+  finish(): Uint8Array {
+    // Empty content needs no input beyond the header
+    this.process();
+    if (!this.done) {
+      throw new Error(
+        this.contentLen < 0
+          ? "Bao encoding ended before the length header"
+          : `Bao encoding ended early: ${this.contentLen} content bytes expected`,
+      );
+    }
+    return this.read();
+  }
+
+  private append(bytes: Uint8Array): void {
+    const available = this.pendingEnd - this.pendingStart;
+    if (this.pendingEnd + bytes.length > this.pending.length) {
+      const needed = available + bytes.length;
+      if (needed > this.pending.length) {
+        const grown = new Uint8Array(Math.max(needed, this.pending.length * 2));
+        grown.set(this.pending.subarray(this.pendingStart, this.pendingEnd));
+        this.pending = grown;
+      } else {
+        this.pending.copyWithin(0, this.pendingStart, this.pendingEnd);
+      }
+      this.pendingStart = 0;
+      this.pendingEnd = available;
+    }
+    this.pending.set(bytes, this.pendingEnd);
+    this.pendingEnd += bytes.length;
+  }
+
+  private start(contentLen: number): void {
+    if (contentLen < 0) {
+      throw new Error("Invalid Bao header: content length exceeds 2^53 - 1");
+    }
+    this.contentLen = contentLen;
+    const cover = sliceCoverage(contentLen, this.sliceStart, this.sliceLen);
+    this.coverStart = cover.start;
+    this.coverEnd = cover.end;
+    this.nodeCvs.set(this.rootWords, 0);
+    this.nodeOffsets[0] = 0;
+    this.nodeLens[0] = contentLen;
+    this.stackLen = 1;
+  }
+
+  private readOutboardHeader(outboard: Uint8Array): void {
+    if (outboard.length < HEADER_LEN) {
+      throw new Error(`Outboard encoding must be at least ${HEADER_LEN} bytes`);
+    }
+    this.start(readHeader(outboard, 0));
+    const expected = HEADER_LEN + encodedSubtreeSize(this.contentLen, true);
+    if (outboard.length !== expected) {
+      throw new Error(`Outboard encoding is ${outboard.length} bytes, expected ${expected}`);
+    }
+    this.outboardPos = HEADER_LEN;
+  }
+
+  /**
+   * Verify nodes from the top of the stack until input runs out.
+   */
+  private process(): void {
+    if (this.contentLen < 0) {
+      if (this.pendingEnd - this.pendingStart < HEADER_LEN) return;
+      this.start(readHeader(this.pending, this.pendingStart));
+      this.pendingStart += HEADER_LEN;
+    }
+
+    while (this.stackLen > 0) {
+      const top = this.stackLen - 1;
+      const offset = this.nodeOffsets[top];
+      const len = this.nodeLens[top];
+      const isRoot = len === this.contentLen;
+
+      // Subtrees outside a slice are left out of it
+      if (!isRoot && (offset >= this.coverEnd || offset + len <= this.coverStart)) {
+        this.stackLen--;
+        continue;
+      }
+
+      if (len > CHUNK_LEN) {
+        // Parent node: from the outboard tree or inline
+        let source = this.pending;
+        let pos = this.pendingStart;
+        if (this.outboard) {
+          source = this.outboard;
+          pos = this.outboardPos;
+        } else if (this.pendingEnd - pos < PARENT_LEN) {
+          return;
+        }
+
+        readLittleEndianWordsFull(source, pos, parentBlock);
+        compress(
+          IV,
+          0,
+          parentBlock,
+          0,
+          nodeCv,
+          0,
+          false,
+          0,
+          BLOCK_LEN,
+          isRoot ? PARENT | ROOT : PARENT,
+        );
+        if (!cvEquals(nodeCv, 0, this.nodeCvs, top * 8)) {
+          throw new BaoIntegrityError(
+            `Parent node for content offset ${offset} does not match its chaining value`,
+            offset,
+          );
+        }
+        if (this.outboard) {
+          this.outboardPos += PARENT_LEN;
+        } else {
+          this.pendingStart += PARENT_LEN;
+        }
+
+        // Replace this node with its right child, then push the left child
+        const split = leftLen(len);
+        this.nodeCvs.set(parentBlock.subarray(8, 16), top * 8);
+        this.nodeOffsets[top] = offset + split;
+        this.nodeLens[top] = len - split;
+        this.nodeCvs.set(parentBlock.subarray(0, 8), (top + 1) * 8);
+        this.nodeOffsets[top + 1] = offset;
+        this.nodeLens[top + 1] = split;
+        this.stackLen++;
+        continue;
+      }
+
+      // Chunk
+      if (this.pendingEnd - this.pendingStart < len) return;
+      const chunk = this.pending.subarray(this.pendingStart, this.pendingStart + len);
+      if (isRoot) {
+        readLittleEndianWords(hash(chunk), 0, nodeCv, 8);
+      } else {
+        hashChunkWithWords(chunk, null, 0, len, offset / CHUNK_LEN, IV, 0, nodeCv, 0);
+      }
+      if (!cvEquals(nodeCv, 0, this.nodeCvs, top * 8)) {
+        throw new BaoIntegrityError(
+          `Chunk ${offset / CHUNK_LEN} does not match its chaining value`,
+          offset,
+        );
+      }
+      const from = Math.max(offset, this.sliceStart) - offset;
+      const to = Math.min(offset + len, this.sliceStart + this.sliceLen) - offset;
+      if (to > from) this.verified.push(chunk.slice(from, to));
+      this.pendingStart += len;
+      this.stackLen--;
+    }
+  }
+}
+
+/**
+ * Decode and verify a complete combined encoding.
+ *
+ * @param encoding - Combined Bao encoding
+ * @param rootHash - Trusted 32-byte root hash
+ * @returns The verified content
+ * @throws BaoIntegrityError if the encoding does not match rootHash
+ */
+export function decode(encoding: Uint8Array, rootHash: Uint8Array): Uint8Array {
+  return new Decoder(rootHash).push(encoding).finish();
+}
+
+/**
+ * Verify content against its outboard encoding.
+ *
+ * @param content - Raw content
+ * @param outboard - Outboard Bao encoding
+ * @param rootHash - Trusted 32-byte root hash
+ * @returns The verified content
+ * @throws BaoIntegrityError if the content or tree does not match rootHash
+ */
+export function decodeOutboard(
+  content: Uint8Array,
+  outboard: Uint8Array,
+  rootHash: Uint8Array,
+): Uint8Array {
+  return new Decoder(rootHash, outboard).push(content).finish();
+}
@@ -0,0 +1,184 @@
+/**
+ * Bao encoder - combined and outboard encodings
+ *
+ * Produces the same bytes as the reference `bao` tool: an 8-byte length
+ * header followed by the pre-order BLAKE3 tree (see common.ts). Peers can
+ * verify the content incrementally against the 32-byte root hash, which is
+ * the regular BLAKE3 hash of the content.
+ */
+
+import { compress } from "../compress.js";
+import { IV, PARENT, ROOT, BLOCK_LEN, CHUNK_LEN, OUT_LEN } from "../constants.js";
+import { compressChunkGroupSimd, ensureSimdSync, hash, hashChunkWithWords } from "../hash.js";
+import { readLittleEndianWordsFull, writeLittleEndianWords } from "../utils.js";
+import { getSimdMemory } from "../wasm-simd.js";
+import { HEADER_LEN, PARENT_LEN, encodedSubtreeSize, leftLen, writeHeader } from "./common.js";
+
+/**
+ * A Bao encoding together with the root hash it verifies against.
+ */
+export interface BaoEncoding {
+  /** Combined or outboard encoding, including the length header */
+  encoding: Uint8Array;
+  /** 32-byte root hash (same as hash(content)) */
+  hash: Uint8Array;
+}
+
+// ===== Module-level reusable buffers (single-threaded safe) =====
+const chunkCv = new Uint32Array(8);
+const parentBlock = new Uint32Array(16);
+
+// Chunk CVs of the current 4-chunk subtree, precomputed with WASM SIMD
+const groupCvs = new Uint32Array(32);
+let groupStart = -1;
+
+function validateContentLen(contentLen: number): void {
+  if (!Number.isSafeInteger(contentLen) || contentLen < 0) {
+    throw new Error(`Invalid content length: ${contentLen}`);
+  }
+}
+
+/**
+ * Size in bytes of the combined encoding of `contentLen` bytes of content.
+ */
+export function encodedSize(contentLen: number): number {
+  validateContentLen(contentLen);
+  return HEADER_LEN + encodedSubtreeSize(contentLen, false);
+}
+
+/**
+ * Size in bytes of the outboard encoding of `contentLen` bytes of content.
+ */
+export function outboardSize(contentLen: number): number {
+  validateContentLen(contentLen);
+  return HEADER_LEN + encodedSubtreeSize(contentLen, true);
+}
+
+/**
+ * Produce the combined encoding: parent nodes interleaved with chunk data.
+ *
+ * @param input - Content to encode
+ * @returns The encoding and its root hash
+ */
+export function encode(input: Uint8Array): BaoEncoding {
+  return encodeTree(input, false);
+}
+
+/**
+ * Produce the outboard encoding: parent nodes only. The content is sent
+ * separately and verified against the outboard tree.
+ *
+ * @param input - Content to encode
+ * @returns The outboard encoding and its root hash
+ */
+export function encodeOutboard(input: Uint8Array): BaoEncoding {
+  return encodeTree(input, true);
+}
+
+function encodeTree(input: Uint8Array, outboard: boolean): BaoEncoding {
+  const encoding = new Uint8Array(HEADER_LEN + encodedSubtreeSize(input.length, outboard));
+  writeHeader(input.length, encoding, 0);
+
+  // A single chunk is the root itself: no parent nodes
+  if (input.length <= CHUNK_LEN) {
+    if (!outboard) encoding.set(input, HEADER_LEN);
+    return { encoding, hash: hash(input) };
+  }
+
+  const rootHash = new Uint8Array(OUT_LEN);
+  const mem = input.length >= 4 * CHUNK_LEN && ensureSimdSync() ? getSimdMemory() : null;
+  groupStart = -1;
+  encodeSubtree(
+    input,
+    0,
+    input.length,
+    0,
+    encoding,
+    HEADER_LEN,
+    rootHash,
+    0,
+    PARENT | ROOT,
+    outboard,
+    mem ? mem.view32 : null,
+  );
+
+  return { encoding, hash: rootHash };
+}
+
+/**
+ * Write the encoding of the subtree covering `len` bytes of input at `pos`,
+ * and its chaining value to `cvOut` at `cvPos` (the parent node slot above
+ * it, or the root hash). Returns the position after the subtree.
+ *
+ * @param parentFlags - Flags for this subtree's parent node (PARENT, plus ROOT at the top)
+ */
+function encodeSubtree(
+  input: Uint8Array,
+  offset: number,
+  len: number,
+  startChunk: number,
+  output: Uint8Array,
+  pos: number,
+  cvOut: Uint8Array,
+  cvPos: number,
+  parentFlags: number,
+  outboard: boolean,
+  view32: Uint32Array | null,
+): number {
+  if (len <= CHUNK_LEN) {
+    const groupIndex = startChunk - groupStart;
+    if (groupStart >= 0 && groupIndex >= 0 && groupIndex < 4) {
+      writeLittleEndianWords(groupCvs, groupIndex * 8, cvOut, cvPos);
+    } else {
+      hashChunkWithWords(input, null, offset, len, startChunk, IV, 0, chunkCv, 0);
+      writeLittleEndianWords(chunkCv, 0, cvOut, cvPos);
+    }
+    if (!outboard) {
+      output.set(input.subarray(offset, offset + len), pos);
+      pos += len;
+    }
+    return pos;
+  }
+
+  // 4 full chunks: hash them together with WASM SIMD (32-bit counters only)
+  if (view32 && len === 4 * CHUNK_LEN && startChunk + 4 <= 0x100000000) {
+    compressChunkGroupSimd(view32, input, null, offset, startChunk, IV, 0, groupCvs);
+    groupStart = startChunk;
+  }
+
+  // Children write their chaining values into this node's slot
+  const nodePos = pos;
+  const split = leftLen(len);
+  pos += PARENT_LEN;
+  pos = encodeSubtree(
+    input,
+    offset,
+    split,
+    startChunk,
+    output,
+    pos,
+    output,
+    nodePos,
+    PARENT,
+    outboard,
+    view32,
+  );
+  pos = encodeSubtree(
+    input,
+    offset + split,
+    len - split,
+    startChunk + split / CHUNK_LEN,
+    output,
+    pos,
+    output,
+    nodePos + OUT_LEN,
+    PARENT,
+    outboard,
+    view32,
+  );
+
+  readLittleEndianWordsFull(output, nodePos, parentBlock);
+  compress(IV, 0, parentBlock, 0, chunkCv, 0, false, 0, BLOCK_LEN, parentFlags);
+  writeLittleEndianWords(chunkCv, 0, cvOut, cvPos);
+  return pos;
+}
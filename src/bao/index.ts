@@ -0,0 +1,22 @@
+/**
+ * Bao - BLAKE3 verified streaming
+ *
+ * Bao encodes content together with its BLAKE3 tree, so a receiver holding
+ * only the 32-byte root hash can verify the content incrementally.
+ *
+ * @example
+ * ```typescript
+ * import { bao } from 'blake3-jit';
+ *
+ * const { encoding, hash } = bao.encode(blob);
+ * const { encoding: outboard } = bao.encodeOutboard(blob);
+ *
+ * // On the receiving side, with only the trusted hash
+ * const content = bao.decode(encoding, hash);
+ * ```
+ */
+
+export { encode, encodeOutboard, encodedSize, outboardSize } from "./encode.js";
+export type { BaoEncoding } from "./encode.js";
+export { Decoder, BaoIntegrityError, decode, decodeOutboard } from "./decode.js";
+export { extractSlice, extractSliceOutboard, decodeSlice } from "./slice.js";
@@ -0,0 +1,170 @@
+/**
+ * Bao slices - the parent nodes and chunks proving one byte range
+ *
+ * A slice has the same layout as the combined encoding (header, then the
+ * tree in pre-order) with every subtree outside the requested range left
+ * out, so it can be verified against the root hash on its own.
+ */
+
+import { CHUNK_LEN } from "../constants.js";
+import {
+  HEADER_LEN,
+  PARENT_LEN,
+  encodedSubtreeSize,
+  leftLen,
+  readHeader,
+  sliceCoverage,
+  validateSlice,
+} from "./common.js";
+import { Decoder } from "./decode.js";
+
+/**
+ * Where slice extraction reads from and writes to.
+ */
+interface SliceWriter {
+  /** Combined or outboard encoding */
+  tree: Uint8Array;
+  /** Raw content (outboard mode only) */
+  content: Uint8Array | null;
+  /** Chunk range covered by the slice */
+  start: number;
+  end: number;
+  /** Destination, or null to only measure the slice */
+  output: Uint8Array | null;
+  outputPos: number;
+}
+
+function writeBytes(writer: SliceWriter, bytes: Uint8Array): void {
+  if (writer.output) writer.output.set(bytes, writer.outputPos);
+  writer.outputPos += bytes.length;
+}
+
+/**
+ * Copy the parts of a subtree that overlap the slice.
+ * Returns the position in the tree after the subtree.
+ */
+function writeSubtree(
+  writer: SliceWriter,
+  treePos: number,
+  offset: number,
+  len: number,
+  isRoot: boolean,
+): number {
+  const outboard = writer.content !== null;
+  if (!isRoot && (offset >= writer.end || offset + len <= writer.start)) {
+    return treePos + encodedSubtreeSize(len, outboard);
+  }
+
+  if (len <= CHUNK_LEN) {
+    if (writer.content) {
+      writeBytes(writer, writer.content.subarray(offset, offset + len));
+      return treePos;
+    }
+    writeBytes(writer, writer.tree.subarray(treePos, treePos + len));
+    return treePos + len;
+  }
+
+  writeBytes(writer, writer.tree.subarray(treePos, treePos + PARENT_LEN));
+  const split = leftLen(len);
+  treePos = writeSubtree(writer, treePos + PARENT_LEN, offset, split, false);
+  return writeSubtree(writer, treePos, offset + split, len - split, false);
+}
+
+function extract(
+  tree: Uint8Array,
+  content: Uint8Array | null,
+  sliceStart: number,
+  sliceLen: number,
+): Uint8Array {
+  validateSlice(sliceStart, sliceLen);
+  if (tree.length < HEADER_LEN) {
+    throw new Error(`Bao encoding must be at least ${HEADER_LEN} bytes`);
+  }
+  const contentLen = readHeader(tree, 0);
+  if (contentLen < 0) {
+    throw new Error("Invalid Bao header: content length exceeds 2^53 - 1");
+  }
+  const expected = HEADER_LEN + encodedSubtreeSize(contentLen, content !== null);
+  if (tree.length !== expected) {
+    throw new Error(`Bao encoding is ${tree.length} bytes, expected ${expected}`);
+  }
+  if (content && content.length !== contentLen) {
+    throw new Error(`Content is ${content.length} bytes, expected ${contentLen}`);
+  }
+
+  const cover = sliceCoverage(contentLen, sliceStart, sliceLen);
+  const writer: SliceWriter = {
+    tree,
+    content,
+    start: cover.start,
+    end: cover.end,
+    output: null,
+    outputPos: HEADER_LEN,
+  };
+
+  // Measure, then copy
+  writeSubtree(writer, HEADER_LEN, 0, contentLen, true);
+  writer.output = new Uint8Array(writer.outputPos);
+  writer.output.set(tree.subarray(0, HEADER_LEN));
+  writer.outputPos = HEADER_LEN;
+  writeSubtree(writer, HEADER_LEN, 0, contentLen, true);
+  return writer.output;
+}
+
+/**
+ * Extract the slice proving `sliceLen` bytes at `sliceStart` from a
+ * combined encoding.
+ *
+ * The slice always covers at least one chunk: a zero-length slice covers the
+ * chunk at `sliceStart`, and a start past the end covers the final chunk.
+ *
+ * @param encoding - Combined Bao encoding
+ * @param sliceStart - Content offset of the range
+ * @param sliceLen - Length of the range in bytes
+ * @returns The slice
+ */
+export function extractSlice(
+  encoding: Uint8Array,
+  sliceStart: number,
+  sliceLen: number,
+): Uint8Array {
+  return extract(encoding, null, sliceStart, sliceLen);
+}
+
+/**
+ * Extract a slice from content and its outboard encoding. The result is the
+ * same as extractSlice() on the combined encoding.
+ *
+ * @param content - Raw content
+ * @param outboard - Outboard Bao encoding
+ * @param sliceStart - Content offset of the range
+ * @param sliceLen - Length of the range in bytes
+ * @returns The slice
+ */
+export function extractSliceOutboard(
+  content: Uint8Array,
+  outboard: Uint8Array,
+  sliceStart: number,
+  sliceLen: number,
+): Uint8Array {
+  return extract(outboard, content, sliceStart, sliceLen);
+}
+
+/**
+ * Verify a slice against the root hash and return the bytes of the range.
+ *
+ * @param slice - Slice from extractSlice()
+ * @param rootHash - Trusted 32-byte root hash
+ * @param sliceStart - Content offset the slice was extracted at
+ * @param sliceLen - Length the slice was extracted with
+ * @returns The verified bytes of the range (clipped to the content length)
+ * @throws BaoIntegrityError if the slice does not match rootHash
+ */
+export function decodeSlice(
+  slice: Uint8Array,
+  rootHash: Uint8Array,
+  sliceStart: number,
+  sliceLen: number,
+): Uint8Array {
+  return Decoder.forSlice(rootHash, sliceStart, sliceLen).push(slice).finish();
+}
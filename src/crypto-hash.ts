@@ -0,0 +1,121 @@
+/**
+ * Node.js crypto.Hash-compatible adapter
+ *
+ * Drop-in for tooling that takes a crypto.createHash()-like object:
+ * update(data, inputEncoding), digest(encoding) and copy(), with the same
+ * "Digest already called" error once finalized.
+ */
+
+import { Buffer } from "node:buffer";
+
+import { hasherForOptions, type HashModeOptions } from "./hash-options.js";
+import type { Hasher } from "./hasher.js";
+
+/**
+ * Input accepted by Blake3Hash.update().
+ */
+export type HashInput = string | ArrayBufferView | ArrayBuffer;
+
+function digestAlreadyCalled(): Error {
+  return Object.assign(new Error("Digest already called"), {
+    code: "ERR_CRYPTO_HASH_FINALIZED",
+  });
+}
+
+function toBytes(data: HashInput, inputEncoding?: BufferEncoding): Uint8Array {
+  if (typeof data === "string") {
+    return Buffer.from(data, inputEncoding ?? "utf8");
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  if (data instanceof ArrayBuffer) {
+    return new Uint8Array(data);
+  }
+  throw new TypeError(
+    "The data argument must be a string, Buffer, TypedArray, DataView or ArrayBuffer",
+  );
+}
+
+/**
+ * BLAKE3 with the crypto.Hash interface.
+ *
+ * @example
+ * ```typescript
+ * import { createHash } from 'blake3-jit/node';
+ *
+ * const etag = createHash().update(body).digest('base64url');
+ * ```
+ */
+export class Blake3Hash {
+  private hasher: Hasher;
+  private outputLength: number;
+  private finalized: boolean;
+
+  /**
+   * @param options - Hashing mode and digest length
+   */
+  constructor(options: HashModeOptions = {}) {
+    const { hasher, outputLength } = hasherForOptions(options);
+    this.hasher = hasher;
+    this.outputLength = outputLength;
+    this.finalized = false;
+  }
+
+  /**
+   * Add data to the hash.
+   *
+   * @param data - Bytes, or a string decoded with inputEncoding
+   * @param inputEncoding - Encoding of string data (default: 'utf8')
+   * @throws Error if digest() has been called
+   */
+  update(data: HashInput, inputEncoding?: BufferEncoding): this {
+    if (this.finalized) throw digestAlreadyCalled();
+    this.hasher.update(toBytes(data, inputEncoding));
+    return this;
+  }
+
+  /**
+   * Compute the digest. The hash cannot be used afterwards.
+   *
+   * @param encoding - Return a string in this encoding instead of a Buffer
+   * @throws Error if digest() has already been called
+   */
+  digest(): Buffer;
+  digest(encoding: BufferEncoding): string;
+  digest(encoding?: BufferEncoding): Buffer | string {
+    if (this.finalized) throw digestAlreadyCalled();
+    this.finalized = true;
+    const digest = this.hasher.finalize(this.outputLength);
+    const buffer = Buffer.from(digest.buffer, digest.byteOffset, digest.byteLength);
+    return encoding === undefined ? buffer : buffer.toString(encoding);
+  }
+
+  /**
+   * Copy the current state into an independent hash.
+   *
+   * @param options - Optional digest length of the copy
+   * @throws Error if digest() has been called
+   */
+  copy(options: { outputLength?: number } = {}): Blake3Hash {
+    if (this.finalized) throw digestAlreadyCalled();
+    const outputLength = options.outputLength ?? this.outputLength;
+    if (!Number.isSafeInteger(outputLength) || outputLength < 0) {
+      throw new Error(`Invalid output length: ${outputLength}`);
+    }
+    const copy = Object.create(Blake3Hash.prototype) as Blake3Hash;
+    copy.hasher = this.hasher.clone();
+    copy.outputLength = outputLength;
+    copy.finalized = false;
+    return copy;
+  }
+}
+
+/**
+ * Create a BLAKE3 hash with the crypto.Hash interface.
+ *
+ * @param options - Hashing mode and digest length
+ */
+export function createHash(options?: HashModeOptions): Blake3Hash {
+  return new Blake3Hash(options);
+}
@@ -0,0 +1,79 @@
+/**
+ * BLAKE3 derive_key - Prepared contexts
+ *
+ * derive_key hashes the context string into a context key before hashing the
+ * key material. When many keys are derived under the same context, the
+ * context key can be computed once and reused.
+ */
+
+import { DERIVE_KEY_MATERIAL, OUT_LEN } from "./constants.js";
+import { deriveContextKeyWords, hashInput, hashInputInto } from "./hash.js";
+import { Hasher } from "./hasher.js";
+import type { Input } from "./utils.js";
+
+/**
+ * A derive_key context string with its context key precomputed.
+ *
+ * @example
+ * ```typescript
+ * const ctx = prepareDeriveKeyContext("my-app v1 tenant key");
+ * const k1 = ctx.deriveKey(tenant1Secret);
+ * const k2 = ctx.createHasher().update(part1).update(part2).finalize();
+ * ```
+ */
+export class DeriveKeyContext {
+  /** The context string this context key was derived from. */
+  readonly context: string;
+  private contextKeyWords: Uint32Array;
+
+  /**
+   * Hash the context string once and keep its context key.
+   *
+   * @param context - Context string for domain separation
+   */
+  constructor(context: string) {
+    this.context = context;
+    this.contextKeyWords = new Uint32Array(8);
+    deriveContextKeyWords(context, this.contextKeyWords);
+  }
+
+  /**
+   * Create a new key derivation hasher for this context.
+   * Same as `createDeriveKey(context)`, without re-hashing the context.
+   */
+  createHasher(): Hasher {
+    return new Hasher(this.contextKeyWords, DERIVE_KEY_MATERIAL);
+  }
+
+  /**
+   * Derive a key from key material in one shot.
+   *
+   * @param material - Input key material (same types as deriveKey())
+   * @param outputLength - Number of bytes to output (default: 32)
+   * @returns The derived key
+   */
+  deriveKey(material: Input, outputLength: number = OUT_LEN): Uint8Array {
+    return hashInput(material, outputLength, this.contextKeyWords, DERIVE_KEY_MATERIAL);
+  }
+
+  /**
+   * Derive a key directly into a caller-provided output buffer.
+   *
+   * @param material - Input key material (same types as deriveKey())
+   * @param output - Pre-allocated output buffer (must be at least outputLength bytes)
+   * @param outputLength - Number of bytes to output (default: 32, max: output.length)
+   */
+  deriveKeyInto(material: Input, output: Uint8Array, outputLength: number = OUT_LEN): void {
+    hashInputInto(material, output, outputLength, this.contextKeyWords, DERIVE_KEY_MATERIAL);
+  }
+}
+
+/**
+ * Precompute the context key for a derive_key context string.
+ *
+ * @param context - Context string for domain separation
+ * @returns A reusable DeriveKeyContext
+ */
+export function prepareDeriveKeyContext(context: string): DeriveKeyContext {
+  return new DeriveKeyContext(context);
+}
@@ -0,0 +1,166 @@
+/**
+ * Digest encodings and constant-time comparison
+ *
+ * Encode digests as hex, base64url or base32 text without Buffer (works in
+ * every runtime), and compare digests and verify MAC tags without leaking
+ * the position of the first differing byte through timing.
+ */
+
+import { OUT_LEN } from "./constants.js";
+import { hash, keyedHash, deriveKey } from "./hash.js";
+import { equals, type Input } from "./utils.js";
+
+export { equals };
+
+// ===== Module-level lookup tables =====
+const HEX_PAIRS: string[] = [];
+for (let i = 0; i < 256; i++) {
+  HEX_PAIRS.push(i.toString(16).padStart(2, "0"));
+}
+
+const BASE64URL_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+/**
+ * Encode bytes as lowercase hex.
+ *
+ * @example
+ * ```typescript
+ * toHex(hash(data)); // 'af1349b9...'
+ * ```
+ */
+export function toHex(bytes: Uint8Array): string {
+  let hex = "";
+  for (let i = 0; i < bytes.length; i++) {
+    hex += HEX_PAIRS[bytes[i]];
+  }
+  return hex;
+}
+
+/**
+ * Decode a hex string (either case).
+ *
+ * @throws Error if the string has an odd length or a non-hex character
+ */
+export function fromHex(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new Error("Invalid hex string");
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Encode bytes as base64url (RFC 4648 section 5), without padding.
+ */
+export function toBase64url(bytes: Uint8Array): string {
+  let text = "";
+  let i = 0;
+  for (; i + 3 <= bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    text +=
+      BASE64URL_ALPHABET[n >>> 18] +
+      BASE64URL_ALPHABET[(n >>> 12) & 63] +
+      BASE64URL_ALPHABET[(n >>> 6) & 63] +
+      BASE64URL_ALPHABET[n & 63];
+  }
+  const rest = bytes.length - i;
+  if (rest === 1) {
+    const n = bytes[i];
+    text += BASE64URL_ALPHABET[n >>> 2] + BASE64URL_ALPHABET[(n & 3) << 4];
+  } else if (rest === 2) {
+    const n = (bytes[i] << 8) | bytes[i + 1];
+    text +=
+      BASE64URL_ALPHABET[n >>> 10] +
+      BASE64URL_ALPHABET[(n >>> 4) & 63] +
+      BASE64URL_ALPHABET[(n & 15) << 2];
+  }
+  return text;
+}
+
+/**
+ * Encode bytes as lowercase base32 (RFC 4648 section 6 alphabet), without
+ * padding - the form used in DNS labels and content identifiers.
+ */
+export function toBase32(bytes: Uint8Array): string {
+  let text = "";
+  let bits = 0;
+  let value = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    value = ((value << 8) | bytes[i]) & 0xfff;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      text += BASE32_ALPHABET[(value >>> bits) & 31];
+    }
+  }
+  if (bits > 0) {
+    text += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return text;
+}
+
+/**
+ * Verify a keyed hash (MAC) tag in constant time. The keyed hash is
+ * computed with the tag's length, so truncated and extended tags work.
+ *
+ * @param key - 32-byte key
+ * @param message - Authenticated data
+ * @param tag - Tag to check
+ * @returns true if `tag` is the keyed hash of `message`; false for an empty tag
+ * @throws Error if the key is not 32 bytes
+ *
+ * @example
+ * ```typescript
+ * if (!verifyKeyed(key, body, fromHex(request.headers['x-signature']))) {
+ *   return unauthorized();
+ * }
+ * ```
+ */
+export function verifyKeyed(key: Uint8Array, message: Input, tag: Uint8Array): boolean {
+  return tag.length > 0 && equals(keyedHash(key, message, tag.length), tag);
+}
+
+/**
+ * Hash `input` and return the digest as lowercase hex.
+ *
+ * @param input - Data to hash
+ * @param outputLength - Number of bytes to output (default: 32)
+ */
+export function hashHex(input: Input, outputLength: number = OUT_LEN): string {
+  return toHex(hash(input, outputLength));
+}
+
+/**
+ * Keyed hash (MAC) of `input` as lowercase hex. Compare tags with equals()
+ * on the bytes, not with `===` on hex strings.
+ *
+ * @param key - 32-byte key
+ * @param input - Data to authenticate
+ * @param outputLength - Number of bytes to output (default: 32)
+ */
+export function keyedHashHex(
+  key: Uint8Array,
+  input: Input,
+  outputLength: number = OUT_LEN,
+): string {
+  return toHex(keyedHash(key, input, outputLength));
+}
+
+/**
+ * Derived key as lowercase hex.
+ *
+ * @param context - Context string
+ * @param material - Key material
+ * @param outputLength - Number of bytes to output (default: 32)
+ */
+export function deriveKeyHex(
+  context: string,
+  material: Input,
+  outputLength: number = OUT_LEN,
+): string {
+  return toHex(deriveKey(context, material, outputLength));
+}
@@ -0,0 +1,117 @@
+/**
+ * Node.js file hashing - stream a file through a reused read buffer
+ *
+ * By default reads fill whole buffers of a multiple of 4 chunks, so every
+ * Hasher.update() starts at a chunk group boundary with a 4-byte aligned
+ * view, and all but the last group of each read goes through the WASM SIMD
+ * fast path with word loads.
+ */
+
+import { closeSync, openSync, readSync, type PathLike } from "node:fs";
+import { open } from "node:fs/promises";
+
+import { CHUNK_LEN } from "./constants.js";
+import { hasherForOptions, type HashModeOptions } from "./hash-options.js";
+
+/**
+ * Options for hashFile() and hashFileSync().
+ */
+export interface HashFileOptions extends HashModeOptions {
+  /** Read buffer size in bytes (default: 1 MiB) */
+  bufferSize?: number;
+  /**
+   * Fill the whole buffer before hashing, with the buffer size rounded up to
+   * a multiple of 4 KiB (default: true). Keeps every update on a chunk group
+   * boundary even when the file returns short reads (pipes, network mounts).
+   */
+  aligned?: boolean;
+}
+
+const DEFAULT_BUFFER_SIZE = 1024 * 1024;
+const CHUNK_GROUP_LEN = 4 * CHUNK_LEN;
+
+function readBufferFor(options: HashFileOptions): { buffer: Uint8Array; aligned: boolean } {
+  const size = options.bufferSize ?? DEFAULT_BUFFER_SIZE;
+  if (!Number.isSafeInteger(size) || size <= 0) {
+    throw new Error(`Invalid buffer size: ${size}`);
+  }
+  const aligned = options.aligned ?? true;
+  const length = aligned ? Math.ceil(size / CHUNK_GROUP_LEN) * CHUNK_GROUP_LEN : size;
+  // A fresh buffer starts at byte offset 0, so its views are word aligned
+  return { buffer: new Uint8Array(length), aligned };
+}
+
+/**
+ * Hash a file without reading it into memory.
+ *
+ * @param path - File to hash
+ * @param options - Hashing mode, output length and read behavior
+ * @returns The digest of the file's contents
+ *
+ * @example
+ * ```typescript
+ * import { hashFile } from 'blake3-jit/node';
+ *
+ * const digest = await hashFile('artifact.tar.gz');
+ * ```
+ */
+export async function hashFile(path: PathLike, options: HashFileOptions = {}): Promise<Uint8Array> {
+  const { hasher, outputLength } = hasherForOptions(options);
+  const { buffer, aligned } = readBufferFor(options);
+
+  const file = await open(path, "r");
+  try {
+    let eof = false;
+    while (!eof) {
+      let filled = 0;
+      while (filled < buffer.length) {
+        const { bytesRead } = await file.read(buffer, filled, buffer.length - filled, null);
+        if (bytesRead === 0) {
+          eof = true;
+          break;
+        }
+        filled += bytesRead;
+        if (!aligned) break;
+      }
+      if (filled > 0) hasher.update(buffer.subarray(0, filled));
+    }
+  } finally {
+    await file.close();
+  }
+
+  return hasher.finalize(outputLength);
+}
+
+/**
+ * Hash a file synchronously, for build scripts.
+ *
+ * @param path - File to hash
+ * @param options - Hashing mode, output length and read behavior
+ * @returns The digest of the file's contents
+ */
+export function hashFileSync(path: PathLike, options: HashFileOptions = {}): Uint8Array {
+  const { hasher, outputLength } = hasherForOptions(options);
+  const { buffer, aligned } = readBufferFor(options);
+
+  const fd = openSync(path, "r");
+  try {
+    let eof = false;
+    while (!eof) {
+      let filled = 0;
+      while (filled < buffer.length) {
+        const bytesRead = readSync(fd, buffer, filled, buffer.length - filled, null);
+        if (bytesRead === 0) {
+          eof = true;
+          break;
+        }
+        filled += bytesRead;
+        if (!aligned) break;
+      }
+      if (filled > 0) hasher.update(buffer.subarray(0, filled));
+    }
+  } finally {
+    closeSync(fd);
+  }
+
+  return hasher.finalize(outputLength);
+}
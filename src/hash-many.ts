@@ -0,0 +1,263 @@
+/**
+ * BLAKE3 batch hashing - many independent messages at once
+ *
+ * Messages of at most one chunk are packed four at a time into the lanes of
+ * the compress4x WASM SIMD kernel, each lane with its own block lengths and
+ * flags. Larger messages (and environments without SIMD) fall back to hash().
+ */
+
+import { IV, CHUNK_START, CHUNK_END, ROOT, BLOCK_LEN, CHUNK_LEN, OUT_LEN } from "./constants.js";
+import { ensureSimdSync, hashInto } from "./hash.js";
+import { writeLittleEndianWords } from "./utils.js";
+import { getSimdMemory, runCompress4x, SIMD_MEMORY } from "./wasm-simd.js";
+
+// Pre-computed memory offsets for compress4x (single-block mode)
+const SIMD_CV_BASE = SIMD_MEMORY.CHAINING_VALUES / 4;
+const SIMD_OUT_BASE = SIMD_MEMORY.OUTPUT / 4;
+const SIMD_COUNTER_LOW_BASE = SIMD_MEMORY.COUNTER_LOW / 4;
+const SIMD_COUNTER_HIGH_BASE = SIMD_MEMORY.COUNTER_HIGH / 4;
+const SIMD_BLOCK_LEN_BASE = SIMD_MEMORY.BLOCK_LEN / 4;
+const SIMD_FLAGS_BASE = SIMD_MEMORY.FLAGS / 4;
+
+// ===== Per-lane message and digest locations (single-threaded safe) =====
+const EMPTY = new Uint8Array(0);
+const laneInputs: Uint8Array[] = [EMPTY, EMPTY, EMPTY, EMPTY];
+const laneInputOffsets = new Uint32Array(4);
+const laneInputLens = new Uint32Array(4);
+const laneOutputs: Uint8Array[] = [EMPTY, EMPTY, EMPTY, EMPTY];
+const laneOutputOffsets = new Uint32Array(4);
+const laneBlocks = new Uint32Array(4);
+const laneCv = new Uint32Array(8);
+
+/**
+ * Load one (possibly partial) block of a lane's message into the transposed
+ * block words, zero-padding past `len` bytes.
+ */
+function loadLaneBlock(
+  view32: Uint32Array,
+  lane: number,
+  input: Uint8Array,
+  offset: number,
+  len: number,
+): void {
+  const fullWords = len >>> 2;
+  let w = 0;
+  for (; w < fullWords; w++, offset += 4) {
+    view32[w * 4 + lane] =
+      input[offset] |
+      (input[offset + 1] << 8) |
+      (input[offset + 2] << 16) |
+      (input[offset + 3] << 24);
+  }
+
+  const remaining = len & 3;
+  if (remaining > 0) {
+    let word = input[offset];
+    if (remaining > 1) word |= input[offset + 1] << 8;
+    if (remaining > 2) word |= input[offset + 2] << 16;
+    view32[w * 4 + lane] = word;
+    w++;
+  }
+
+  for (; w < 16; w++) {
+    view32[w * 4 + lane] = 0;
+  }
+}
+
+/**
+ * Hash the single-chunk messages currently assigned to lanes 0..laneCount-1
+ * with compress4x, writing each 32-byte digest to its lane output.
+ */
+function hashLanes(view32: Uint32Array, laneCount: number): void {
+  let maxBlocks = 1;
+  for (let lane = 0; lane < laneCount; lane++) {
+    // An empty message is still one (empty) block
+    const blocks = Math.max(1, Math.ceil(laneInputLens[lane] / BLOCK_LEN));
+    laneBlocks[lane] = blocks;
+    if (blocks > maxBlocks) maxBlocks = blocks;
+  }
+
+  // Every message is chunk 0 of its own tree, starting from the IV
+  for (let w = 0; w < 8; w++) {
+    const base = SIMD_CV_BASE + w * 4;
+    view32[base] = IV[w];
+    view32[base + 1] = IV[w];
+    view32[base + 2] = IV[w];
+    view32[base + 3] = IV[w];
+  }
+  for (let lane = 0; lane < 4; lane++) {
+    view32[SIMD_COUNTER_LOW_BASE + lane] = 0;
+    view32[SIMD_COUNTER_HIGH_BASE + lane] = 0;
+  }
+
+  for (let block = 0; block < maxBlocks; block++) {
+    for (let lane = 0; lane < 4; lane++) {
+      if (lane >= laneCount || block >= laneBlocks[lane]) {
+        // Idle lane: its result is ignored
+        view32[SIMD_BLOCK_LEN_BASE + lane] = 0;
+        view32[SIMD_FLAGS_BASE + lane] = 0;
+        continue;
+      }
+
+      const blockStart = block * BLOCK_LEN;
+      const blockLen = Math.min(BLOCK_LEN, laneInputLens[lane] - blockStart);
+      loadLaneBlock(view32, lane, laneInputs[lane], laneInputOffsets[lane] + blockStart, blockLen);
+
+      let flags = block === 0 ? CHUNK_START : 0;
+      if (block === laneBlocks[lane] - 1) flags |= CHUNK_END | ROOT;
+      view32[SIMD_BLOCK_LEN_BASE + lane] = blockLen;
+      view32[SIMD_FLAGS_BASE + lane] = flags;
+    }
+
+    runCompress4x();
+
+    for (let lane = 0; lane < laneCount; lane++) {
+      if (block >= laneBlocks[lane]) continue;
+
+      if (block === laneBlocks[lane] - 1) {
+        // Root block: the first 8 output words are the digest
+        for (let w = 0; w < 8; w++) {
+          laneCv[w] = view32[SIMD_OUT_BASE + w * 4 + lane];
+        }
+        writeLittleEndianWords(laneCv, 0, laneOutputs[lane], laneOutputOffsets[lane]);
+      } else {
+        // Chain this lane's CV into its next block
+        for (let w = 0; w < 8; w++) {
+          view32[SIMD_CV_BASE + w * 4 + lane] = view32[SIMD_OUT_BASE + w * 4 + lane];
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Hash many independent messages, returning one 32-byte digest per message.
+ * Same as `inputs.map((input) => hash(input))`, but messages of up to 1 KiB
+ * are hashed four at a time with WASM SIMD.
+ *
+ * @param inputs - Messages to hash
+ * @param outputs - Optional destination buffers (each at least 32 bytes), one per message
+ * @returns The digests (`outputs` if provided)
+ *
+ * @example
+ * ```typescript
+ * const digests = hashMany(records);
+ * ```
+ */
+export function hashMany(inputs: readonly Uint8Array[], outputs?: Uint8Array[]): Uint8Array[] {
+  const count = inputs.length;
+  if (outputs) {
+    if (outputs.length !== count) {
+      throw new Error(`Expected ${count} output buffers, got ${outputs.length}`);
+    }
+    for (let i = 0; i < count; i++) {
+      if (outputs[i].length < OUT_LEN) {
+        throw new Error(`Output buffer too small: ${outputs[i].length} < ${OUT_LEN}`);
+      }
+    }
+  } else {
+    outputs = [];
+    for (let i = 0; i < count; i++) {
+      outputs.push(new Uint8Array(OUT_LEN));
+    }
+  }
+
+  const mem = ensureSimdSync() ? getSimdMemory() : null;
+  let laneCount = 0;
+
+  for (let i = 0; i < count; i++) {
+    const input = inputs[i];
+    if (!mem || input.length > CHUNK_LEN) {
+      hashInto(input, outputs[i]);
+      continue;
+    }
+
+    laneInputs[laneCount] = input;
+    laneInputOffsets[laneCount] = 0;
+    laneInputLens[laneCount] = input.length;
+    laneOutputs[laneCount] = outputs[i];
+    laneOutputOffsets[laneCount] = 0;
+    if (++laneCount === 4) {
+      hashLanes(mem.view32, 4);
+      laneCount = 0;
+    }
+  }
+
+  if (mem && laneCount > 0) {
+    hashLanes(mem.view32, laneCount);
+  }
+  releaseLanes();
+
+  return outputs;
+}
+
+/**
+ * Hash a contiguous buffer of fixed-length messages, writing the 32-byte
+ * digests back to back: message i is `input[i * messageLen, (i + 1) * messageLen)`
+ * and its digest is `output[i * 32, (i + 1) * 32)`.
+ *
+ * @param input - Concatenated messages (length must be a multiple of messageLen)
+ * @param messageLen - Length of every message in bytes
+ * @param output - Optional destination buffer (at least 32 bytes per message)
+ * @returns The concatenated digests (`output` if provided)
+ */
+export function hashManyStrided(
+  input: Uint8Array,
+  messageLen: number,
+  output?: Uint8Array,
+): Uint8Array {
+  if (!Number.isSafeInteger(messageLen) || messageLen <= 0) {
+    throw new Error(`Invalid message length: ${messageLen}`);
+  }
+  if (input.length % messageLen !== 0) {
+    throw new Error(`Input length ${input.length} is not a multiple of ${messageLen}`);
+  }
+
+  const count = input.length / messageLen;
+  const outputLen = count * OUT_LEN;
+  if (!output) {
+    output = new Uint8Array(outputLen);
+  } else if (output.length < outputLen) {
+    throw new Error(`Output buffer too small: ${output.length} < ${outputLen}`);
+  }
+
+  const mem = messageLen <= CHUNK_LEN && ensureSimdSync() ? getSimdMemory() : null;
+  if (!mem) {
+    for (let i = 0; i < count; i++) {
+      const offset = i * messageLen;
+      hashInto(
+        input.subarray(offset, offset + messageLen),
+        output.subarray(i * OUT_LEN, (i + 1) * OUT_LEN),
+      );
+    }
+    return output;
+  }
+
+  for (let lane = 0; lane < 4; lane++) {
+    laneInputs[lane] = input;
+    laneInputLens[lane] = messageLen;
+    laneOutputs[lane] = output;
+  }
+
+  for (let i = 0; i < count; i += 4) {
+    const laneCount = Math.min(4, count - i);
+    for (let lane = 0; lane < laneCount; lane++) {
+      laneInputOffsets[lane] = (i + lane) * messageLen;
+      laneOutputOffsets[lane] = (i + lane) * OUT_LEN;
+    }
+    hashLanes(mem.view32, laneCount);
+  }
+  releaseLanes();
+
+  return output;
+}
+
+/**
+ * Drop lane references so caller buffers can be garbage collected.
+ */
+function releaseLanes(): void {
+  for (let lane = 0; lane < 4; lane++) {
+    laneInputs[lane] = EMPTY;
+    laneOutputs[lane] = EMPTY;
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Hashing mode options shared by the stream and adapter APIs
+ */
+
+import { OUT_LEN } from "./constants.js";
+import { Hasher } from "./hasher.js";
+
+/**
+ * Hashing mode and output length.
+ */
+export interface HashModeOptions {
+  /** 32-byte key for keyed hashing (MAC) */
+  key?: Uint8Array;
+  /** Context string for key derivation */
+  context?: string;
+  /** Number of digest bytes (default: 32) */
+  outputLength?: number;
+}
+
+/**
+ * Create the Hasher for `options` and validate the output length.
+ *
+ * @returns The hasher and the output length to finalize with
+ */
+export function hasherForOptions(options: HashModeOptions): {
+  hasher: Hasher;
+  outputLength: number;
+} {
+  const { key, context, outputLength = OUT_LEN } = options;
+  if (key !== undefined && context !== undefined) {
+    throw new Error("Options key and context are mutually exclusive");
+  }
+  if (!Number.isSafeInteger(outputLength) || outputLength < 0) {
+    throw new Error(`Invalid output length: ${outputLength}`);
+  }
+
+  let hasher: Hasher;
+  if (key !== undefined) {
+    hasher = Hasher.newKeyed(key);
+  } else if (context !== undefined) {
+    hasher = Hasher.newDeriveKey(context);
+  } else {
+    hasher = new Hasher();
+  }
+  return { hasher, outputLength };
+}
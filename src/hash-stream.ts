@@ -0,0 +1,92 @@
+/**
+ * Node.js stream integration - hash data as it flows through a pipeline
+ *
+ * Like the streams of crypto.createHash(), but the data passes through
+ * unchanged and the digest is emitted as a "digest" event on finish.
+ */
+
+import { Transform, type TransformCallback } from "node:stream";
+
+import { hasherForOptions, type HashModeOptions } from "./hash-options.js";
+import type { Hasher } from "./hasher.js";
+
+/**
+ * Options for createHashStream().
+ */
+export interface HashStreamOptions extends HashModeOptions {
+  /**
+   * Pass written data through to the readable side (default: true).
+   * Set to false to use the stream as a sink, e.g. at the end of pipeline().
+   */
+  passThrough?: boolean;
+}
+
+/**
+ * Transform stream that hashes everything written to it.
+ * Emits "digest" with the Uint8Array digest before "finish".
+ *
+ * Written data is passed through, so a stream with nothing reading from it
+ * stops accepting writes once its readable buffer is full. At the end of
+ * pipeline(), pass `passThrough: false` (or call resume() to discard the data).
+ *
+ * @example
+ * ```typescript
+ * import { pipeline } from 'node:stream/promises';
+ * import { createHashStream } from 'blake3-jit/node';
+ *
+ * const hashing = createHashStream();
+ * await pipeline(createReadStream(src), hashing, createWriteStream(dest));
+ * hashing.digest(); // hash of the copied file
+ * ```
+ */
+export class HashStream extends Transform {
+  private hasher: Hasher;
+  private outputLength: number;
+  private passThrough: boolean;
+  private result: Uint8Array | null;
+
+  constructor(options: HashStreamOptions = {}) {
+    super();
+    const { hasher, outputLength } = hasherForOptions(options);
+    this.hasher = hasher;
+    this.outputLength = outputLength;
+    this.passThrough = options.passThrough ?? true;
+    this.result = null;
+  }
+
+  override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.hasher.update(chunk);
+    if (this.passThrough) {
+      callback(null, chunk);
+    } else {
+      callback();
+    }
+  }
+
+  override _flush(callback: TransformCallback): void {
+    this.result = this.hasher.finalize(this.outputLength);
+    this.emit("digest", this.result);
+    callback();
+  }
+
+  /**
+   * The digest of everything written.
+   *
+   * @throws Error if the stream has not finished yet
+   */
+  digest(): Uint8Array {
+    if (!this.result) {
+      throw new Error("Digest is not available before the stream has finished");
+    }
+    return this.result;
+  }
+}
+
+/**
+ * Create a stream that hashes the data passing through it.
+ *
+ * @param options - Hashing mode, output length and pass-through behavior
+ */
+export function createHashStream(options?: HashStreamOptions): HashStream {
+  return new HashStream(options);
+}
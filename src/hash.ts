@@ -12,24 +12,38 @@ import {
   CHUNK_END,
   PARENT,
   ROOT,
+  KEYED_HASH,
+  DERIVE_KEY_CONTEXT,
+  DERIVE_KEY_MATERIAL,
   BLOCK_LEN,
   CHUNK_LEN,
   OUT_LEN,
+  KEY_LEN,
 } from "./constants.js";
+// Circular import, used only at call time (iterable input, long outputs)
+import { Hasher } from "./hasher.js";
 import {
   IS_LITTLE_ENDIAN,
+  readLittleEndianWords,
   readLittleEndianWordsFull,
   readLittleEndianWordsPartial,
   writeLittleEndianBytesPartial,
+  encodeUTF8,
+  inputBytes,
+  type Input,
 } from "./utils.js";
 import {
   initSimdSync,
+  initSimdAsync,
+  getSimdStatus,
   getSimdMemory,
   getArenaBuffers,
   runCompress4x,
   runCompressChunks4x,
   runCompressParent,
+  runCompressXof4x,
   SIMD_MEMORY,
+  type SimdStatus,
 } from "./wasm-simd.js";
 
 // Pre-allocated buffers for reuse (single-threaded optimization)
@@ -65,7 +79,7 @@ const SIMD_THRESHOLD = 4 * CHUNK_LEN; // 4KB - need at least 4 chunks for SIMD b
 /**
  * Initialize SIMD synchronously (lazy).
  */
-function ensureSimdSync(): boolean {
+export function ensureSimdSync(): boolean {
   if (simdAvailable) return true;
   simdAvailable = initSimdSync();
   return simdAvailable;
@@ -98,6 +112,13 @@ const reusableCounters = new Uint32Array(4);
 const reusableBlockLens = new Uint32Array(4);
 const reusableFlags = new Uint32Array(4);
 
+// For keyedHash()/deriveKey() - key words of the current one-shot call
+const reusableKeyWords = new Uint32Array(8);
+
+// For compressXofBlocksSimd() - 4 untransposed output blocks
+const reusableXofWords = new Uint32Array(64);
+const reusableXofBytes = new Uint8Array(reusableXofWords.buffer);
+
 // Reusable output buffer for common 32-byte hash (eliminates allocations)
 const reusableOut8 = new Uint32Array(8); // Standard 32-byte output
 // Pre-created view to avoid allocation in hot path (Task 1 optimization)
@@ -322,6 +343,9 @@ const BATCH_COUNTER_LOW_BASE = SIMD_MEMORY.BATCH_COUNTER_LOW / 4;
 const BATCH_FLAGS_BASE_OFFSET = SIMD_MEMORY.BATCH_FLAGS_BASE / 4;
 const BATCH_OUTPUT_BASE = SIMD_MEMORY.BATCH_OUTPUT / 4;
 
+// Pre-computed memory offset for SIMD root output blocks (XOF mode)
+const XOF_OUTPUT_BASE = SIMD_MEMORY.XOF_OUTPUT / 4;
+
 // Reusable arrays for batch processing
 const batchChunkOffsets = new Uint32Array(4);
 const SIMD_FLAGS_BASE = SIMD_MEMORY.FLAGS / 4;
@@ -422,19 +446,22 @@ function getBlockWords(): Uint32Array {
  * Hash a single chunk (up to 1024 bytes) with pre-created inputWords view.
  * This is the optimized version that avoids creating Uint32Array views per chunk.
  * (Fleek optimization Step 8)
+ *
+ * Internal: also used by the hazmat subtree API.
  */
-function hashChunkWithWords(
+export function hashChunkWithWords(
   input: Uint8Array,
   inputWords: Uint32Array | null, // Pre-created view of entire input
   inputOffset: number,
   inputLen: number,
   chunkCounter: number,
+  keyWords: Uint32Array,
   flags: number,
   cv: Uint32Array,
   cvOffset: number,
 ): void {
   // Use reusable temporary CV for intermediate blocks (single-threaded safe)
-  reusableTempCv.set(IV);
+  reusableTempCv.set(keyWords);
 
   // Process full blocks
   const fullBlocks = inputLen >>> 6; // inputLen / 64
@@ -551,11 +578,169 @@ function hashChunkWithWords(
   cv.set(reusableTempCv, cvOffset);
 }
 
+/**
+ * Compress 4 consecutive full chunks with the batched compressChunks4x kernel.
+ * This reduces 16 WASM calls to 1 per group of 4 chunks.
+ * SIMD must already be initialized (see ensureSimdSync()).
+ *
+ * @param view32 - WASM memory view (from getSimdMemory())
+ * @param input - Input data (must hold 4 full chunks starting at inputOffset)
+ * @param inputWords - Pre-created Uint32Array view of input (null if unaligned/non-LE)
+ * @param inputOffset - Byte offset of the first chunk within input
+ * @param chunkCounter - Chunk counter of the first chunk
+ * @param keyWords - Initial chaining value (IV for regular hashing)
+ * @param flags - Domain separation flags (without CHUNK_START/CHUNK_END)
+ * @param outCvs - Flat output array: 4 × 8 words
+ */
+export function compressChunkGroupSimd(
+  view32: Uint32Array,
+  input: Uint8Array,
+  inputWords: Uint32Array | null,
+  inputOffset: number,
+  chunkCounter: number,
+  keyWords: Uint32Array,
+  flags: number,
+  outCvs: Uint32Array,
+): void {
+  // Set up chunk offsets for batch transpose
+  batchChunkOffsets[0] = inputOffset;
+  batchChunkOffsets[1] = inputOffset + CHUNK_LEN;
+  batchChunkOffsets[2] = inputOffset + 2 * CHUNK_LEN;
+  batchChunkOffsets[3] = inputOffset + 3 * CHUNK_LEN;
+
+  // Transpose all 64 blocks (4 chunks × 16 blocks) at once
+  transposeBatchToSimd(input, batchChunkOffsets, view32, inputWords);
+
+  // Set up initial CVs (key words) in batch memory - transposed layout
+  for (let w = 0; w < 8; w++) {
+    const keyWord = keyWords[w];
+    const base = BATCH_CV_BASE + w * 4;
+    view32[base] = keyWord;
+    view32[base + 1] = keyWord;
+    view32[base + 2] = keyWord;
+    view32[base + 3] = keyWord;
+  }
+
+  // Set up counters in batch memory
+  view32[BATCH_COUNTER_LOW_BASE] = chunkCounter;
+  view32[BATCH_COUNTER_LOW_BASE + 1] = chunkCounter + 1;
+  view32[BATCH_COUNTER_LOW_BASE + 2] = chunkCounter + 2;
+  view32[BATCH_COUNTER_LOW_BASE + 3] = chunkCounter + 3;
+
+  // Set up base flags (CHUNK_START/CHUNK_END are added by the kernel)
+  view32[BATCH_FLAGS_BASE_OFFSET] = flags;
+  view32[BATCH_FLAGS_BASE_OFFSET + 1] = flags;
+  view32[BATCH_FLAGS_BASE_OFFSET + 2] = flags;
+  view32[BATCH_FLAGS_BASE_OFFSET + 3] = flags;
+
+  // Run batched compress (16 blocks × 4 chunks in one call!)
+  runCompressChunks4x();
+
+  // Read output CVs from batch output - untranspose to outCvs
+  for (let w = 0; w < 8; w++) {
+    const base = BATCH_OUTPUT_BASE + w * 4;
+    outCvs[w] = view32[base]; // chunk 0
+    outCvs[8 + w] = view32[base + 1]; // chunk 1
+    outCvs[16 + w] = view32[base + 2]; // chunk 2
+    outCvs[24 + w] = view32[base + 3]; // chunk 3
+  }
+}
+
+/**
+ * Generate consecutive 64-byte root output blocks with the compressXof4x
+ * kernel, 4 output block counters per WASM call.
+ * SIMD must already be initialized (see ensureSimdSync()).
+ *
+ * @param view32 - WASM memory view (from getSimdMemory())
+ * @param inputCv - Chaining value of the root node
+ * @param blockWords - Message words of the root node's last block
+ * @param counter - Output block counter of the first block
+ * @param blockLen - Length of the root node's last block
+ * @param flags - Root node flags (including ROOT)
+ * @param output - Destination buffer
+ * @param outputOffset - Byte offset of the first block within output
+ * @param blockCount - Number of full blocks to write
+ */
+export function compressXofBlocksSimd(
+  view32: Uint32Array,
+  inputCv: Uint32Array,
+  blockWords: Uint32Array,
+  counter: number,
+  blockLen: number,
+  flags: number,
+  output: Uint8Array,
+  outputOffset: number,
+  blockCount: number,
+): void {
+  // Message words and CV are shared by all lanes (transposed layout)
+  for (let w = 0; w < 16; w++) {
+    const word = blockWords[w];
+    const base = w * 4;
+    view32[base] = word;
+    view32[base + 1] = word;
+    view32[base + 2] = word;
+    view32[base + 3] = word;
+  }
+  for (let w = 0; w < 8; w++) {
+    const word = inputCv[w];
+    const base = SIMD_CV_BASE + w * 4;
+    view32[base] = word;
+    view32[base + 1] = word;
+    view32[base + 2] = word;
+    view32[base + 3] = word;
+  }
+  for (let i = 0; i < 4; i++) {
+    view32[SIMD_BLOCK_LEN_BASE + i] = blockLen;
+    view32[SIMD_FLAGS_BASE + i] = flags;
+  }
+
+  let remaining = blockCount;
+  while (remaining > 0) {
+    // Output counters are 64-bit: split each lane's counter into low/high words
+    for (let i = 0; i < 4; i++) {
+      const laneCounter = counter + i;
+      view32[SIMD_COUNTER_LOW_BASE + i] = laneCounter >>> 0;
+      view32[SIMD_COUNTER_HIGH_BASE + i] = Math.floor(laneCounter / 0x100000000);
+    }
+
+    runCompressXof4x();
+
+    // Untranspose output: lane i holds block (counter + i)
+    const lanes = remaining < 4 ? remaining : 4;
+    for (let w = 0; w < 16; w++) {
+      const base = XOF_OUTPUT_BASE + w * 4;
+      reusableXofWords[w] = view32[base];
+      reusableXofWords[16 + w] = view32[base + 1];
+      reusableXofWords[32 + w] = view32[base + 2];
+      reusableXofWords[48 + w] = view32[base + 3];
+    }
+
+    const byteCount = lanes * BLOCK_LEN;
+    if (IS_LITTLE_ENDIAN) {
+      output.set(reusableXofBytes.subarray(0, byteCount), outputOffset);
+    } else {
+      writeLittleEndianBytesPartial(reusableXofWords, 0, output, outputOffset, byteCount);
+    }
+
+    counter += lanes;
+    outputOffset += byteCount;
+    remaining -= lanes;
+  }
+}
+
 /**
  * Hash input using pure JavaScript.
  * Handles the full Merkle tree construction.
+ *
+ * @param keyWords - Key words (IV for regular hashing)
+ * @param flags - Mode flags (0, KEYED_HASH or DERIVE_KEY_MATERIAL)
  */
-function hashPureJS(input: Uint8Array, outputLen: number): Uint8Array {
+function hashPureJS(
+  input: Uint8Array,
+  outputLen: number,
+  keyWords: Uint32Array,
+  flags: number,
+): Uint8Array {
   const inputLen = input.length;
 
   // Special case: empty input
@@ -565,7 +750,18 @@ function hashPureJS(input: Uint8Array, outputLen: number): Uint8Array {
     // Use reusable output buffer for common 32-byte case
     const out = outputLen === 32 ? reusableOut8 : new Uint32Array(outputLen > 32 ? 16 : 8);
 
-    compress(IV, 0, block, 0, out, 0, outputLen > 32, 0, 0, CHUNK_START | CHUNK_END | ROOT);
+    compress(
+      keyWords,
+      0,
+      block,
+      0,
+      out,
+      0,
+      outputLen > 32,
+      0,
+      0,
+      flags | CHUNK_START | CHUNK_END | ROOT,
+    );
 
     // Return result - use pre-created view for common 32-byte case
     if (outputLen === 32 && IS_LITTLE_ENDIAN) {
@@ -587,7 +783,7 @@ function hashPureJS(input: Uint8Array, outputLen: number): Uint8Array {
   if (numChunks === 1) {
     // Use reusable output buffer for common 32-byte case
     const cv = outputLen === 32 ? reusableOut8 : new Uint32Array(outputLen > 32 ? 16 : 8);
-    hashChunkRoot(input, 0, inputLen, 0, 0, cv, outputLen > 32);
+    hashChunkRoot(input, 0, inputLen, 0, keyWords, flags, cv, outputLen > 32);
 
     // Return result - use pre-created view for common 32-byte case
     if (outputLen === 32 && IS_LITTLE_ENDIAN) {
@@ -628,7 +824,7 @@ function hashPureJS(input: Uint8Array, outputLen: number): Uint8Array {
   if (canUseFastPath && inputWords) {
     for (let chunkIdx = 0; chunkIdx < fullChunks; chunkIdx++) {
       // Inline chunk processing for full chunks
-      chunkCv.set(IV);
+      chunkCv.set(keyWords);
       let wordOff = chunkIdx << 8; // chunkIdx * 256 (CHUNK_LEN/4)
 
       // Block 0 (CHUNK_START)
@@ -642,16 +838,27 @@ function hashPureJS(input: Uint8Array, outputLen: number): Uint8Array {
         false,
         chunkIdx,
         BLOCK_LEN,
-        CHUNK_START,
+        flags | CHUNK_START,
       );
       wordOff += 16;
       // Blocks 1-14 (no special flags)
       for (let b = 1; b < 15; b++) {
-        compress(chunkCv, 0, inputWords, wordOff, chunkCv, 0, false, chunkIdx, BLOCK_LEN, 0);
+        compress(chunkCv, 0, inputWords, wordOff, chunkCv, 0, false, chunkIdx, BLOCK_LEN, flags);
         wordOff += 16;
       }
       // Block 15 (CHUNK_END)
-      compress(chunkCv, 0, inputWords, wordOff, chunkCv, 0, false, chunkIdx, BLOCK_LEN, CHUNK_END);
+      compress(
+        chunkCv,
+        0,
+        inputWords,
+        wordOff,
+        chunkCv,
+        0,
+        false,
+        chunkIdx,
+        BLOCK_LEN,
+        flags | CHUNK_END,
+      );
 
       // Merge completed subtrees (avoid subarray by using index math)
       let totalChunks = chunkIdx + 1;
@@ -673,7 +880,7 @@ function hashPureJS(input: Uint8Array, outputLen: number): Uint8Array {
         // Copy current CV to parentBlock[8..15] (unrolled)
         copyCV8(cvSrc, cvSrcOff, parentBlock, 8);
 
-        compress(IV, 0, parentBlock, 0, parentCv, 0, false, 0, BLOCK_LEN, PARENT);
+        compress(keyWords, 0, parentBlock, 0, parentCv, 0, false, 0, BLOCK_LEN, flags | PARENT);
         cvSrc = parentCv;
         cvSrcOff = 0;
         totalChunks >>>= 1;
@@ -693,7 +900,8 @@ function hashPureJS(input: Uint8Array, outputLen: number): Uint8Array {
         fullChunks * CHUNK_LEN,
         lastChunkLen,
         fullChunks,
-        0,
+        keyWords,
+        flags,
         chunkCv,
         0,
       );
@@ -713,7 +921,7 @@ function hashPureJS(input: Uint8Array, outputLen: number): Uint8Array {
         copyCV8(stack, stackOff, parentBlock, 0);
         // Copy from newCv to parentBlock[8..15] (unrolled)
         copyCV8(newCv, newCvOffset, parentBlock, 8);
-        compress(IV, 0, parentBlock, 0, parentCv, 0, false, 0, BLOCK_LEN, PARENT);
+        compress(keyWords, 0, parentBlock, 0, parentCv, 0, false, 0, BLOCK_LEN, flags | PARENT);
         newCv = parentCv;
         newCvOffset = 0;
         totalChunks >>>= 1;
@@ -730,7 +938,17 @@ function hashPureJS(input: Uint8Array, outputLen: number): Uint8Array {
       const chunkStart = chunkIdx * CHUNK_LEN;
       const chunkLen = Math.min(CHUNK_LEN, inputLen - chunkStart);
 
-      hashChunkWithWords(input, inputWords, chunkStart, chunkLen, chunkIdx, 0, chunkCv, 0);
+      hashChunkWithWords(
+        input,
+        inputWords,
+        chunkStart,
+        chunkLen,
+        chunkIdx,
+        keyWords,
+        flags,
+        chunkCv,
+        0,
+      );
 
       // Merge completed subtrees
       let totalChunks = chunkIdx + 1;
@@ -751,7 +969,7 @@ function hashPureJS(input: Uint8Array, outputLen: number): Uint8Array {
         copyCV8(stack, stackOff, parentBlock, 0);
         // Copy from newCv to parentBlock[8..15] (unrolled)
         copyCV8(newCv, newCvOffset, parentBlock, 8);
-        compress(IV, 0, parentBlock, 0, parentCv, 0, false, 0, BLOCK_LEN, PARENT);
+        compress(keyWords, 0, parentBlock, 0, parentCv, 0, false, 0, BLOCK_LEN, flags | PARENT);
         newCv = parentCv;
         newCvOffset = 0;
         totalChunks >>>= 1;
@@ -777,7 +995,18 @@ function hashPureJS(input: Uint8Array, outputLen: number): Uint8Array {
     if (stackLen === 0) {
       // This is the root - use reusable output buffer for common 32-byte case
       const out = outputLen === 32 ? reusableOut8 : new Uint32Array(outputLen > 32 ? 16 : 8);
-      compress(IV, 0, parentBlock, 0, out, 0, outputLen > 32, 0, BLOCK_LEN, PARENT | ROOT);
+      compress(
+        keyWords,
+        0,
+        parentBlock,
+        0,
+        out,
+        0,
+        outputLen > 32,
+        0,
+        BLOCK_LEN,
+        flags | PARENT | ROOT,
+      );
 
       // Return result - use pre-created view for common 32-byte case
       if (outputLen === 32 && IS_LITTLE_ENDIAN) {
@@ -792,7 +1021,7 @@ function hashPureJS(input: Uint8Array, outputLen: number): Uint8Array {
       return result;
     }
 
-    compress(IV, 0, parentBlock, 0, parentCv, 0, false, 0, BLOCK_LEN, PARENT);
+    compress(keyWords, 0, parentBlock, 0, parentCv, 0, false, 0, BLOCK_LEN, flags | PARENT);
 
     // Push to stack (unrolled)
     copyCV8(parentCv, 0, stack, stackLen * 8);
@@ -806,7 +1035,7 @@ function hashPureJS(input: Uint8Array, outputLen: number): Uint8Array {
   // Copy first 8 words from stack (unrolled)
   copyCV8(stack, 0, lastBlock, 0);
 
-  compress(IV, 0, lastBlock, 0, out, 0, outputLen > 32, 0, BLOCK_LEN, ROOT);
+  compress(keyWords, 0, lastBlock, 0, out, 0, outputLen > 32, 0, BLOCK_LEN, flags | ROOT);
 
   // Return result - use pre-created view for common 32-byte case
   if (outputLen === 32 && IS_LITTLE_ENDIAN) {
@@ -829,12 +1058,13 @@ function hashChunkRoot(
   inputOffset: number,
   inputLen: number,
   chunkCounter: number,
+  keyWords: Uint32Array,
   flags: number,
   out: Uint32Array,
   fullOutput: boolean,
 ): void {
   // Use reusable tempCv (single-threaded safe)
-  reusableTempCv.set(IV);
+  reusableTempCv.set(keyWords);
 
   const block = getBlockWords();
 
@@ -902,11 +1132,19 @@ function hashChunkRoot(
 /**
  * Hash using WASM SIMD - processes 4 chunks in parallel.
  * Falls back to pure JS if SIMD fails.
+ *
+ * @param keyWords - Key words (IV for regular hashing)
+ * @param flags - Mode flags (0, KEYED_HASH or DERIVE_KEY_MATERIAL)
  */
-function hashSimd(input: Uint8Array, outputLen: number): Uint8Array {
+function hashSimd(
+  input: Uint8Array,
+  outputLen: number,
+  keyWords: Uint32Array,
+  flags: number,
+): Uint8Array {
   const mem = getSimdMemory();
   if (!mem) {
-    return hashPureJS(input, outputLen);
+    return hashPureJS(input, outputLen, keyWords, flags);
   }
 
   const { view32 } = mem;
@@ -915,7 +1153,7 @@ function hashSimd(input: Uint8Array, outputLen: number): Uint8Array {
 
   // For small inputs, pure JS is faster (no transpose overhead)
   if (numChunks < 4) {
-    return hashPureJS(input, outputLen);
+    return hashPureJS(input, outputLen, keyWords, flags);
   }
 
   // Try to use WASM arena buffers (zero JS heap allocation)
@@ -933,6 +1171,9 @@ function hashSimd(input: Uint8Array, outputLen: number): Uint8Array {
     tempCvs = arena.tempCvs;
     parentBlock = arena.parentBlock;
     parentCv = arena.chunkCv;
+    // Key words and flags for the WASM parent compress
+    arena.parentKey.set(keyWords);
+    arena.parentFlags[0] = flags | PARENT;
   } else {
     // Fallback to JS heap buffers - use global contiguous stack (no allocation)
     stack = HYPER_CV_STACK;
@@ -969,63 +1210,32 @@ function hashSimd(input: Uint8Array, outputLen: number): Uint8Array {
     const canUseBatchPath = groupSize === 4 && chunkIdx + 4 <= numFullChunks;
 
     if (canUseBatchPath) {
-      // Set up chunk offsets for batch transpose
-      batchChunkOffsets[0] = chunkIdx * CHUNK_LEN;
-      batchChunkOffsets[1] = (chunkIdx + 1) * CHUNK_LEN;
-      batchChunkOffsets[2] = (chunkIdx + 2) * CHUNK_LEN;
-      batchChunkOffsets[3] = (chunkIdx + 3) * CHUNK_LEN;
-
-      // Transpose all 64 blocks (4 chunks × 16 blocks) at once
-      transposeBatchToSimd(input, batchChunkOffsets, view32, inputWords);
-
-      // Set up initial CVs (IV) in batch memory - transposed layout
-      for (let w = 0; w < 8; w++) {
-        const ivWord = IV[w];
-        const base = BATCH_CV_BASE + w * 4;
-        view32[base] = ivWord;
-        view32[base + 1] = ivWord;
-        view32[base + 2] = ivWord;
-        view32[base + 3] = ivWord;
-      }
-
-      // Set up counters in batch memory
-      view32[BATCH_COUNTER_LOW_BASE] = chunkIdx;
-      view32[BATCH_COUNTER_LOW_BASE + 1] = chunkIdx + 1;
-      view32[BATCH_COUNTER_LOW_BASE + 2] = chunkIdx + 2;
-      view32[BATCH_COUNTER_LOW_BASE + 3] = chunkIdx + 3;
-
-      // Set up base flags (0 - no keyed hashing)
-      view32[BATCH_FLAGS_BASE_OFFSET] = 0;
-      view32[BATCH_FLAGS_BASE_OFFSET + 1] = 0;
-      view32[BATCH_FLAGS_BASE_OFFSET + 2] = 0;
-      view32[BATCH_FLAGS_BASE_OFFSET + 3] = 0;
-
-      // Run batched compress (16 blocks × 4 chunks in one call!)
-      runCompressChunks4x();
-
-      // Read output CVs from batch output - untranspose to tempCvs
-      for (let w = 0; w < 8; w++) {
-        const base = BATCH_OUTPUT_BASE + w * 4;
-        tempCvs[w] = view32[base]; // chunk 0
-        tempCvs[8 + w] = view32[base + 1]; // chunk 1
-        tempCvs[16 + w] = view32[base + 2]; // chunk 2
-        tempCvs[24 + w] = view32[base + 3]; // chunk 3
-      }
+      // Transpose, compress and untranspose 4 chunks × 16 blocks in one go
+      compressChunkGroupSimd(
+        view32,
+        input,
+        inputWords,
+        chunkIdx * CHUNK_LEN,
+        chunkIdx,
+        keyWords,
+        flags,
+        tempCvs,
+      );
     } else {
       // === STANDARD PATH: block-by-block processing ===
       // Used for partial chunks or groups < 4
 
-      // Initialize CVs for this group to IV (flat array: 4 × 8 words)
+      // Initialize CVs for this group to the key words (flat array: 4 × 8 words)
       for (let g = 0; g < groupSize; g++) {
         const base = g * 8;
-        tempCvs[base] = IV[0];
-        tempCvs[base + 1] = IV[1];
-        tempCvs[base + 2] = IV[2];
-        tempCvs[base + 3] = IV[3];
-        tempCvs[base + 4] = IV[4];
-        tempCvs[base + 5] = IV[5];
-        tempCvs[base + 6] = IV[6];
-        tempCvs[base + 7] = IV[7];
+        tempCvs[base] = keyWords[0];
+        tempCvs[base + 1] = keyWords[1];
+        tempCvs[base + 2] = keyWords[2];
+        tempCvs[base + 3] = keyWords[3];
+        tempCvs[base + 4] = keyWords[4];
+        tempCvs[base + 5] = keyWords[5];
+        tempCvs[base + 6] = keyWords[6];
+        tempCvs[base + 7] = keyWords[7];
       }
 
       // Process all 16 blocks of each chunk in this group
@@ -1051,13 +1261,13 @@ function hashSimd(input: Uint8Array, outputLen: number): Uint8Array {
           counters[g] = thisChunkIdx;
 
           // Determine flags
-          let flags = 0;
-          if (blockIdx === 0) flags |= CHUNK_START;
+          let blockFlags = flags;
+          if (blockIdx === 0) blockFlags |= CHUNK_START;
           const totalBlocksInChunk = Math.ceil(chunkLen / BLOCK_LEN) || 1;
-          if (blockIdx === totalBlocksInChunk - 1) flags |= CHUNK_END;
+          if (blockIdx === totalBlocksInChunk - 1) blockFlags |= CHUNK_END;
 
           blockLens[g] = thisBlockLen;
-          flagsArr[g] = flags;
+          flagsArr[g] = blockFlags;
         }
 
         // Check if any blocks need processing
@@ -1128,7 +1338,7 @@ function hashSimd(input: Uint8Array, outputLen: number): Uint8Array {
           // WASM parent compress - data already in arena buffers
           runCompressParent();
         } else {
-          compress(IV, 0, parentBlock, 0, parentCv, 0, false, 0, BLOCK_LEN, PARENT);
+          compress(keyWords, 0, parentBlock, 0, parentCv, 0, false, 0, BLOCK_LEN, flags | PARENT);
         }
 
         newCvSrc = parentCv;
@@ -1158,7 +1368,18 @@ function hashSimd(input: Uint8Array, outputLen: number): Uint8Array {
     if (stackLen === 0) {
       // This is the root - use reusable output buffer
       const out = outputLen === 32 ? reusableOut8 : new Uint32Array(outputLen > 32 ? 16 : 8);
-      compress(IV, 0, parentBlock, 0, out, 0, outputLen > 32, 0, BLOCK_LEN, PARENT | ROOT);
+      compress(
+        keyWords,
+        0,
+        parentBlock,
+        0,
+        out,
+        0,
+        outputLen > 32,
+        0,
+        BLOCK_LEN,
+        flags | PARENT | ROOT,
+      );
 
       // Return result - use pre-created view for common 32-byte case
       if (outputLen === 32 && IS_LITTLE_ENDIAN) {
@@ -1177,7 +1398,7 @@ function hashSimd(input: Uint8Array, outputLen: number): Uint8Array {
       // WASM parent compress - data already in arena buffers
       runCompressParent();
     } else {
-      compress(IV, 0, parentBlock, 0, parentCv, 0, false, 0, BLOCK_LEN, PARENT);
+      compress(keyWords, 0, parentBlock, 0, parentCv, 0, false, 0, BLOCK_LEN, flags | PARENT);
     }
 
     // Push to stack (unrolled)
@@ -1194,7 +1415,7 @@ function hashSimd(input: Uint8Array, outputLen: number): Uint8Array {
 
     // Use reusable output buffer
     const out = outputLen === 32 ? reusableOut8 : new Uint32Array(outputLen > 32 ? 16 : 8);
-    compress(IV, 0, block, 0, out, 0, outputLen > 32, 0, BLOCK_LEN, ROOT);
+    compress(keyWords, 0, block, 0, out, 0, outputLen > 32, 0, BLOCK_LEN, flags | ROOT);
 
     // Return result - use pre-created view for common 32-byte case
     if (outputLen === 32 && IS_LITTLE_ENDIAN) {
@@ -1210,63 +1431,252 @@ function hashSimd(input: Uint8Array, outputLen: number): Uint8Array {
   }
 
   // Should not reach here
-  return hashPureJS(input, outputLen);
+  return hashPureJS(input, outputLen, keyWords, flags);
 }
 
 /**
  * Hash input data and return the result.
  * Automatically uses WASM SIMD for large inputs when available.
  *
- * @param input - Data to hash
+ * @param input - Data to hash: bytes, a string (UTF-8), any ArrayBuffer or
+ *   view of one (its bytes), or an iterable of chunks
  * @param outputLength - Number of bytes to output (default: 32)
  * @returns The hash output
  */
-export function hash(input: Uint8Array, outputLength: number = OUT_LEN): Uint8Array {
-  // For large inputs, use SIMD for ~1.5x performance improvement
-  if (input.length >= SIMD_THRESHOLD && ensureSimdSync()) {
-    return hashSimd(input, outputLength);
-  }
-  return hashPureJS(input, outputLength);
+export function hash(input: Input, outputLength: number = OUT_LEN): Uint8Array {
+  return hashInput(input, outputLength, IV, 0);
 }
 
 /**
  * Pre-warm SIMD initialization (call early to avoid latency later).
+ * Initializes synchronously, unless an initSimd() call is still pending;
+ * that is not blocked on.
+ *
+ * @returns "ready" if large inputs use SIMD now, "pending" while initSimd()
+ *   is in progress (large inputs use the JS path until it resolves), or
+ *   "unavailable" if WASM SIMD is unsupported
  */
-export function warmupSimd(): boolean {
-  return ensureSimdSync();
+export function warmupSimd(): SimdStatus {
+  ensureSimdSync();
+  return getSimdStatus();
+}
+
+/**
+ * Initialize SIMD asynchronously (WebAssembly.compile/instantiate).
+ * Preferred on browser main threads, which restrict synchronous compilation
+ * of large modules. Until it resolves, hashing uses the pure JS path.
+ *
+ * @returns Promise resolving to true once SIMD is ready, false if unavailable
+ */
+export async function initSimd(): Promise<boolean> {
+  simdAvailable = await initSimdAsync();
+  return simdAvailable;
 }
 
 /**
  * Hash input data directly into a caller-provided output buffer.
  * Zero-allocation for the common 32-byte case - ideal for performance-critical code.
  *
- * @param input - Data to hash
+ * @param input - Data to hash (same types as hash())
  * @param output - Pre-allocated output buffer (must be at least outputLength bytes)
  * @param outputLength - Number of bytes to output (default: 32, max: output.length)
  */
-export function hashInto(
-  input: Uint8Array,
+export function hashInto(input: Input, output: Uint8Array, outputLength: number = OUT_LEN): void {
+  hashInputInto(input, output, outputLength, IV, 0);
+}
+
+/**
+ * Compute a keyed hash (MAC) of input data in one shot.
+ * Same as `createKeyed(key).update(input).finalize(outputLength)`, without
+ * allocating a Hasher.
+ *
+ * @param key - 32-byte key
+ * @param input - Data to hash (same types as hash())
+ * @param outputLength - Number of bytes to output (default: 32)
+ * @returns The keyed hash output
+ */
+export function keyedHash(
+  key: Uint8Array,
+  input: Input,
+  outputLength: number = OUT_LEN,
+): Uint8Array {
+  readKeyWords(key, reusableKeyWords);
+  return hashInput(input, outputLength, reusableKeyWords, KEYED_HASH);
+}
+
+/**
+ * Compute a keyed hash (MAC) directly into a caller-provided output buffer.
+ *
+ * @param key - 32-byte key
+ * @param input - Data to hash (same types as hash())
+ * @param output - Pre-allocated output buffer (must be at least outputLength bytes)
+ * @param outputLength - Number of bytes to output (default: 32, max: output.length)
+ */
+export function keyedHashInto(
+  key: Uint8Array,
+  input: Input,
   output: Uint8Array,
   outputLength: number = OUT_LEN,
+): void {
+  readKeyWords(key, reusableKeyWords);
+  hashInputInto(input, output, outputLength, reusableKeyWords, KEYED_HASH);
+}
+
+/**
+ * Derive a key from a context string and key material in one shot.
+ * Same as `createDeriveKey(context).update(material).finalize(outputLength)`,
+ * without allocating a Hasher.
+ *
+ * @param context - Context string for domain separation
+ * @param material - Input key material (same types as hash())
+ * @param outputLength - Number of bytes to output (default: 32)
+ * @returns The derived key
+ */
+export function deriveKey(
+  context: string,
+  material: Input,
+  outputLength: number = OUT_LEN,
+): Uint8Array {
+  deriveContextKeyWords(context, reusableKeyWords);
+  return hashInput(material, outputLength, reusableKeyWords, DERIVE_KEY_MATERIAL);
+}
+
+/**
+ * Derive a key directly into a caller-provided output buffer.
+ *
+ * @param context - Context string for domain separation
+ * @param material - Input key material (same types as hash())
+ * @param output - Pre-allocated output buffer (must be at least outputLength bytes)
+ * @param outputLength - Number of bytes to output (default: 32, max: output.length)
+ */
+export function deriveKeyInto(
+  context: string,
+  material: Input,
+  output: Uint8Array,
+  outputLength: number = OUT_LEN,
+): void {
+  deriveContextKeyWords(context, reusableKeyWords);
+  hashInputInto(material, output, outputLength, reusableKeyWords, DERIVE_KEY_MATERIAL);
+}
+
+/**
+ * Internal: Read and validate a 32-byte key into key words.
+ */
+function readKeyWords(key: Uint8Array, keyWords: Uint32Array): void {
+  if (key.length !== KEY_LEN) {
+    throw new Error(`Key must be ${KEY_LEN} bytes, got ${key.length}`);
+  }
+  readLittleEndianWords(key, 0, keyWords, 8);
+}
+
+/**
+ * Internal: Hash the derive_key context string into context key words.
+ * Shared by deriveKey(), Hasher.newDeriveKey() and DeriveKeyContext.
+ */
+export function deriveContextKeyWords(context: string, keyWords: Uint32Array): void {
+  const contextKey = hashWithKeyWords(encodeUTF8(context), KEY_LEN, IV, DERIVE_KEY_CONTEXT);
+  readLittleEndianWords(contextKey, 0, keyWords, 8);
+}
+
+/**
+ * Internal: Hash any Input. Iterables of chunks go through a Hasher, so they
+ * are never concatenated.
+ */
+export function hashInput(
+  input: Input,
+  outputLength: number,
+  keyWords: Uint32Array,
+  flags: number,
+): Uint8Array {
+  const bytes = inputBytes(input);
+  if (bytes === null) {
+    return new Hasher(keyWords, flags).update(input).finalize(outputLength);
+  }
+  return hashWithKeyWords(bytes, outputLength, keyWords, flags);
+}
+
+/**
+ * Internal: hashInput() writing directly to output buffer.
+ */
+export function hashInputInto(
+  input: Input,
+  output: Uint8Array,
+  outputLength: number,
+  keyWords: Uint32Array,
+  flags: number,
+): void {
+  const bytes = inputBytes(input);
+  if (bytes === null) {
+    if (output.length < outputLength) {
+      throw new Error(`Output buffer too small: ${output.length} < ${outputLength}`);
+    }
+    output.set(new Hasher(keyWords, flags).update(input).finalize(outputLength));
+    return;
+  }
+  hashWithKeyWordsInto(bytes, output, outputLength, keyWords, flags);
+}
+
+/**
+ * Internal: Size-based dispatch between the pure JS and SIMD paths.
+ */
+export function hashWithKeyWords(
+  input: Uint8Array,
+  outputLength: number,
+  keyWords: Uint32Array,
+  flags: number,
+): Uint8Array {
+  // The one-shot paths produce a single output block; longer outputs read
+  // the XOF from the root output of a Hasher
+  if (outputLength > BLOCK_LEN) {
+    return new Hasher(keyWords, flags).update(input).finalize(outputLength);
+  }
+
+  // For large inputs, use SIMD for ~1.5x performance improvement
+  if (input.length >= SIMD_THRESHOLD && ensureSimdSync()) {
+    return hashSimd(input, outputLength, keyWords, flags);
+  }
+  return hashPureJS(input, outputLength, keyWords, flags);
+}
+
+/**
+ * Internal: Size-based dispatch writing directly to output buffer.
+ */
+export function hashWithKeyWordsInto(
+  input: Uint8Array,
+  output: Uint8Array,
+  outputLength: number,
+  keyWords: Uint32Array,
+  flags: number,
 ): void {
   // Validate output buffer
   if (output.length < outputLength) {
     throw new Error(`Output buffer too small: ${output.length} < ${outputLength}`);
   }
 
+  if (outputLength > BLOCK_LEN) {
+    output.set(new Hasher(keyWords, flags).update(input).finalize(outputLength));
+    return;
+  }
+
   // For large inputs, use SIMD for ~1.5x performance improvement
   if (input.length >= SIMD_THRESHOLD && ensureSimdSync()) {
-    hashSimdInto(input, output, outputLength);
+    hashSimdInto(input, output, outputLength, keyWords, flags);
     return;
   }
 
-  hashPureJSInto(input, output, outputLength);
+  hashPureJSInto(input, output, outputLength, keyWords, flags);
 }
 
 /**
  * Internal: Hash using pure JS, writing directly to output buffer.
  */
-function hashPureJSInto(input: Uint8Array, output: Uint8Array, outputLen: number): void {
+function hashPureJSInto(
+  input: Uint8Array,
+  output: Uint8Array,
+  outputLen: number,
+  keyWords: Uint32Array,
+  flags: number,
+): void {
   const inputLen = input.length;
 
   // Special case: empty input
@@ -1275,7 +1685,18 @@ function hashPureJSInto(input: Uint8Array, output: Uint8Array, outputLen: number
     block.fill(0);
     const out = outputLen <= 32 ? reusableOut8 : new Uint32Array(16);
 
-    compress(IV, 0, block, 0, out, 0, outputLen > 32, 0, 0, CHUNK_START | CHUNK_END | ROOT);
+    compress(
+      keyWords,
+      0,
+      block,
+      0,
+      out,
+      0,
+      outputLen > 32,
+      0,
+      0,
+      flags | CHUNK_START | CHUNK_END | ROOT,
+    );
 
     // Copy result to output
     if (IS_LITTLE_ENDIAN) {
@@ -1292,7 +1713,7 @@ function hashPureJSInto(input: Uint8Array, output: Uint8Array, outputLen: number
   // Single chunk optimization
   if (numChunks === 1) {
     const cv = outputLen <= 32 ? reusableOut8 : new Uint32Array(16);
-    hashChunkRoot(input, 0, inputLen, 0, 0, cv, outputLen > 32);
+    hashChunkRoot(input, 0, inputLen, 0, keyWords, flags, cv, outputLen > 32);
 
     // Copy result to output
     if (IS_LITTLE_ENDIAN) {
@@ -1304,15 +1725,21 @@ function hashPureJSInto(input: Uint8Array, output: Uint8Array, outputLen: number
   }
 
   // Multiple chunks - delegate to hashPureJS and copy result
-  const result = hashPureJS(input, outputLen);
+  const result = hashPureJS(input, outputLen, keyWords, flags);
   output.set(result);
 }
 
 /**
  * Internal: Hash using SIMD, writing directly to output buffer.
  */
-function hashSimdInto(input: Uint8Array, output: Uint8Array, outputLen: number): void {
+function hashSimdInto(
+  input: Uint8Array,
+  output: Uint8Array,
+  outputLen: number,
+  keyWords: Uint32Array,
+  flags: number,
+): void {
   // Delegate to hashSimd and copy result (SIMD path already optimized)
-  const result = hashSimd(input, outputLen);
+  const result = hashSimd(input, outputLen, keyWords, flags);
   output.set(result);
 }
@@ -16,7 +16,6 @@ import {
   PARENT,
   ROOT,
   KEYED_HASH,
-  DERIVE_KEY_CONTEXT,
   DERIVE_KEY_MATERIAL,
   BLOCK_LEN,
   CHUNK_LEN,
@@ -24,16 +23,55 @@ import {
   KEY_LEN,
   MAX_DEPTH,
 } from "./constants.js";
+import {
+  compressChunkGroupSimd,
+  compressXofBlocksSimd,
+  deriveContextKeyWords,
+  ensureSimdSync,
+} from "./hash.js";
 import {
   IS_LITTLE_ENDIAN,
+  equals,
+  inputBytes,
+  popcount64,
+  readLittleEndianWords,
   readLittleEndianWordsFull,
   writeLittleEndianBytesPartial,
-  encodeUTF8,
+  writeLittleEndianWords,
+  type Input,
 } from "./utils.js";
+import { getArenaBuffers, getSimdMemory, runCompressParent } from "./wasm-simd.js";
+
+// Bytes handed to the SIMD kernel per call: 4 full chunks
+const SIMD_GROUP_LEN = 4 * CHUNK_LEN;
+
+// Minimum block-aligned XOF read handed to the SIMD kernel (4 output blocks per call)
+const SIMD_XOF_MIN_LEN = 16 * BLOCK_LEN;
+
+// Serialized Hasher state (exportState()/importState()), all integers little-endian:
+//   0:   u8  format version
+//   1:   u8  CV stack length
+//   2:   u8  bytes buffered in the current block
+//   3:   u8  blocks compressed in the current chunk
+//   4:   u32 flags
+//   8:   u64 chunk counter
+//   16:  8 key words
+//   48:  8 words current chunk chaining value
+//   80:  64 bytes current block (zero past the buffered length)
+//   144: CV stack, 8 words per entry
+const STATE_VERSION = 1;
+const STATE_KEY_OFFSET = 16;
+const STATE_CV_OFFSET = 48;
+const STATE_BLOCK_OFFSET = 80;
+const STATE_HEADER_LEN = 144;
 
 /**
  * Output state for XOF (eXtendable Output Function) mode.
- * Allows reading arbitrary amounts of output.
+ * Allows reading arbitrary amounts of output, sequentially or at any offset.
+ *
+ * Every 64-byte output block is computed independently from its block
+ * counter, so seeking is O(1): no preceding output is generated. Large
+ * reads compute 4 blocks per call with WASM SIMD when available.
  */
 export class XofReader {
   private inputCv: Uint32Array;
@@ -42,7 +80,10 @@ export class XofReader {
   private blockLen: number;
   private flags: number;
   private outputBlock: Uint32Array;
-  private outputBlockOffset: number;
+  private outputBlockBytes: Uint8Array;
+  // Index of the output block currently held in outputBlock (-1 = none)
+  private outputBlockIndex: number;
+  private bytePosition: number;
 
   constructor(
     inputCv: Uint32Array,
@@ -57,7 +98,30 @@ export class XofReader {
     this.blockLen = blockLen;
     this.flags = flags | ROOT;
     this.outputBlock = new Uint32Array(16);
-    this.outputBlockOffset = 64; // Forces generation on first read
+    this.outputBlockBytes = new Uint8Array(this.outputBlock.buffer);
+    this.outputBlockIndex = -1; // Forces generation on first read
+    this.bytePosition = 0;
+  }
+
+  /**
+   * Byte offset of the next byte `read()`/`readInto()` will return.
+   */
+  get position(): number {
+    return this.bytePosition;
+  }
+
+  /**
+   * Move the read position to `byteOffset` of the output stream.
+   *
+   * @param byteOffset - Absolute byte offset (non-negative safe integer)
+   * @returns this (for chaining)
+   */
+  seek(byteOffset: number): this {
+    if (!Number.isSafeInteger(byteOffset) || byteOffset < 0) {
+      throw new Error(`Invalid XOF position: ${byteOffset}`);
+    }
+    this.bytePosition = byteOffset;
+    return this;
   }
 
   /**
@@ -65,11 +129,54 @@ export class XofReader {
    */
   read(length: number): Uint8Array {
     const output = new Uint8Array(length);
-    let outputOffset = 0;
+    this.readInto(output);
+    return output;
+  }
 
-    while (outputOffset < length) {
-      // Generate new output block if needed
-      if (this.outputBlockOffset >= 64) {
+  /**
+   * Read the next bytes of output into a caller-provided buffer.
+   * Zero-allocation - ideal for generating long keystreams.
+   *
+   * @param target - Destination buffer
+   * @param offset - Starting byte offset in target (default: 0)
+   * @param length - Number of bytes to read (default: rest of target)
+   */
+  readInto(target: Uint8Array, offset: number = 0, length: number = target.length - offset): void {
+    if (offset < 0 || length < 0 || offset + length > target.length) {
+      throw new Error(
+        `Output range out of bounds: offset ${offset}, length ${length}, buffer ${target.length}`,
+      );
+    }
+
+    let position = this.bytePosition;
+    const end = offset + length;
+
+    while (offset < end) {
+      // Large reads from a block boundary: whole blocks straight into target via SIMD
+      if (position % BLOCK_LEN === 0 && end - offset >= SIMD_XOF_MIN_LEN && ensureSimdSync()) {
+        const mem = getSimdMemory();
+        if (mem) {
+          const blockCount = Math.floor((end - offset) / BLOCK_LEN);
+          compressXofBlocksSimd(
+            mem.view32,
+            this.inputCv,
+            this.blockWords,
+            this.counter + position / BLOCK_LEN,
+            this.blockLen,
+            this.flags,
+            target,
+            offset,
+            blockCount,
+          );
+          offset += blockCount * BLOCK_LEN;
+          position += blockCount * BLOCK_LEN;
+          continue;
+        }
+      }
+
+      // Generate the output block containing `position` if needed
+      const blockIndex = Math.floor(position / BLOCK_LEN);
+      if (blockIndex !== this.outputBlockIndex) {
         compress(
           this.inputCv,
           0,
@@ -78,47 +185,32 @@ export class XofReader {
           this.outputBlock,
           0,
           true, // full 64-byte output
-          this.counter++,
+          this.counter + blockIndex,
           this.blockLen,
           this.flags,
         );
-        this.outputBlockOffset = 0;
+        this.outputBlockIndex = blockIndex;
       }
 
       // Copy bytes from output block
-      const available = 64 - this.outputBlockOffset;
-      const toCopy = Math.min(available, length - outputOffset);
+      const blockOffset = position - blockIndex * BLOCK_LEN;
+      const toCopy = Math.min(BLOCK_LEN - blockOffset, end - offset);
 
-      // Optimized copy using writeLittleEndianBytesPartial
-      const wordOffset = this.outputBlockOffset >>> 2;
-      const byteWithinWord = this.outputBlockOffset & 3;
-
-      if (byteWithinWord === 0 && toCopy >= 4) {
-        // Aligned copy - can use word-at-a-time
-        const fullWords = toCopy >>> 2;
-        writeLittleEndianBytesPartial(
-          this.outputBlock,
-          wordOffset,
-          output,
-          outputOffset,
-          fullWords << 2,
-        );
-        const bytesCopied = fullWords << 2;
-        outputOffset += bytesCopied;
-        this.outputBlockOffset += bytesCopied;
+      if (IS_LITTLE_ENDIAN) {
+        target.set(this.outputBlockBytes.subarray(blockOffset, blockOffset + toCopy), offset);
       } else {
-        // Byte-by-byte for unaligned access
+        // Byte-by-byte from words on big-endian systems
         for (let i = 0; i < toCopy; i++) {
-          const wordIdx = (this.outputBlockOffset + i) >>> 2;
-          const byteIdx = (this.outputBlockOffset + i) & 3;
-          output[outputOffset + i] = (this.outputBlock[wordIdx] >>> (byteIdx << 3)) & 0xff;
+          const pos = blockOffset + i;
+          target[offset + i] = (this.outputBlock[pos >>> 2] >>> ((pos & 3) << 3)) & 0xff;
         }
-        outputOffset += toCopy;
-        this.outputBlockOffset += toCopy;
       }
+
+      offset += toCopy;
+      position += toCopy;
     }
 
-    return output;
+    this.bytePosition = position;
   }
 }
 
@@ -154,6 +246,18 @@ class ChunkState {
     this.flags = flags;
   }
 
+  /**
+   * Copy another ChunkState into this one without re-allocating buffers.
+   */
+  copyFrom(other: ChunkState): void {
+    this.chainingValue.set(other.chainingValue);
+    this.chunkCounter = other.chunkCounter;
+    this.blockWords.set(other.blockWords);
+    this.blockLen = other.blockLen;
+    this.blocksCompressed = other.blocksCompressed;
+    this.flags = other.flags;
+  }
+
   /**
    * Get the flags for the current block.
    */
@@ -266,6 +370,9 @@ class ChunkState {
  *
  * Or with chaining:
  *   const hash = new Hasher().update(data).finalize();
+ *
+ * finalize() and finalizeXof() do not consume the hasher: it can keep
+ * accepting input afterwards, and clone() forks it mid-stream.
  */
 export class Hasher {
   private chunkState: ChunkState;
@@ -282,6 +389,7 @@ export class Hasher {
   private chunkCv: Uint32Array;
   private outWords: Uint32Array;
   private finalizeCv: Uint32Array;
+  private groupCvs: Uint32Array;
 
   /**
    * Create a new Hasher.
@@ -300,6 +408,7 @@ export class Hasher {
     this.chunkCv = new Uint32Array(8);
     this.outWords = new Uint32Array(16);
     this.finalizeCv = new Uint32Array(8);
+    this.groupCvs = new Uint32Array(32);
   }
 
   /**
@@ -312,6 +421,142 @@ export class Hasher {
     return this;
   }
 
+  /**
+   * Create an independent copy of this hasher, including any buffered input.
+   * Updating either hasher afterwards does not affect the other.
+   */
+  clone(): Hasher {
+    const copy = new Hasher(this.keyWords, this.flags);
+    copy.chunkState.copyFrom(this.chunkState);
+    copy.cvStack.set(this.cvStack.subarray(0, this.cvStackLen * 8));
+    copy.cvStackLen = this.cvStackLen;
+    return copy;
+  }
+
+  /**
+   * Serialize the hasher state, including buffered input, so hashing can be
+   * resumed later (possibly in another process) with Hasher.importState().
+   */
+  exportState(): Uint8Array {
+    const chunk = this.chunkState;
+    const stackLen = this.cvStackLen;
+    const state = new Uint8Array(STATE_HEADER_LEN + stackLen * OUT_LEN);
+    const view = new DataView(state.buffer);
+
+    state[0] = STATE_VERSION;
+    state[1] = stackLen;
+    state[2] = chunk.blockLen;
+    state[3] = chunk.blocksCompressed;
+    view.setUint32(4, this.flags, true);
+    view.setUint32(8, chunk.chunkCounter >>> 0, true);
+    view.setUint32(12, Math.floor(chunk.chunkCounter / 0x100000000), true);
+
+    writeLittleEndianWords(this.keyWords, 0, state, STATE_KEY_OFFSET);
+    writeLittleEndianWords(chunk.chainingValue, 0, state, STATE_CV_OFFSET);
+    writeLittleEndianBytesPartial(chunk.blockWords, 0, state, STATE_BLOCK_OFFSET, chunk.blockLen);
+    for (let i = 0; i < stackLen; i++) {
+      writeLittleEndianWords(this.cvStack, i * 8, state, STATE_HEADER_LEN + i * OUT_LEN);
+    }
+
+    return state;
+  }
+
+  /**
+   * Restore a hasher from bytes produced by exportState().
+   * Throws if the state is truncated, of an unknown version or inconsistent.
+   *
+   * @param state - Serialized hasher state
+   */
+  static importState(state: Uint8Array): Hasher {
+    if (state.length < STATE_HEADER_LEN) {
+      throw new Error(
+        `Invalid hasher state: expected at least ${STATE_HEADER_LEN} bytes, got ${state.length}`,
+      );
+    }
+    if (state[0] !== STATE_VERSION) {
+      throw new Error(`Invalid hasher state: unsupported version ${state[0]}`);
+    }
+
+    const stackLen = state[1];
+    const blockLen = state[2];
+    const blocksCompressed = state[3];
+    const expectedLen = STATE_HEADER_LEN + stackLen * OUT_LEN;
+    if (state.length !== expectedLen) {
+      throw new Error(`Invalid hasher state: expected ${expectedLen} bytes, got ${state.length}`);
+    }
+
+    const view = new DataView(state.buffer, state.byteOffset, state.byteLength);
+    const flags = view.getUint32(4, true);
+    if (flags !== 0 && flags !== KEYED_HASH && flags !== DERIVE_KEY_MATERIAL) {
+      throw new Error(`Invalid hasher state: unknown flags ${flags}`);
+    }
+
+    const chunkCounter = view.getUint32(8, true) + view.getUint32(12, true) * 0x100000000;
+    if (!Number.isSafeInteger(chunkCounter)) {
+      throw new Error("Invalid hasher state: chunk counter out of range");
+    }
+    if (popcount64(chunkCounter) !== stackLen) {
+      throw new Error(
+        `Invalid hasher state: CV stack length ${stackLen} does not match chunk counter ${chunkCounter}`,
+      );
+    }
+
+    // Blocks are only compressed once more input arrives, and a chunk is only
+    // started once it has input, so an empty block implies an empty first chunk
+    if (
+      blockLen > BLOCK_LEN ||
+      blocksCompressed >= CHUNK_LEN / BLOCK_LEN ||
+      (blockLen === 0 && (blocksCompressed > 0 || chunkCounter > 0))
+    ) {
+      throw new Error(
+        `Invalid hasher state: ${blocksCompressed} blocks compressed with ${blockLen} bytes buffered`,
+      );
+    }
+    for (let i = STATE_BLOCK_OFFSET + blockLen; i < STATE_BLOCK_OFFSET + BLOCK_LEN; i++) {
+      if (state[i] !== 0) {
+        throw new Error("Invalid hasher state: non-zero bytes after the buffered block");
+      }
+    }
+
+    const keyWords = new Uint32Array(8);
+    readLittleEndianWords(state, STATE_KEY_OFFSET, keyWords, 8);
+    // Regular hashing always keys with the IV
+    if (flags === 0) {
+      for (let i = 0; i < 8; i++) {
+        if (keyWords[i] !== IV[i]) {
+          throw new Error("Invalid hasher state: key words of a regular hash must be the IV");
+        }
+      }
+    }
+    const hasher = new Hasher(keyWords, flags);
+
+    const chunk = hasher.chunkState;
+    chunk.chunkCounter = chunkCounter;
+    chunk.blockLen = blockLen;
+    chunk.blocksCompressed = blocksCompressed;
+    readLittleEndianWords(state, STATE_CV_OFFSET, chunk.chainingValue, 8);
+    readLittleEndianWords(state, STATE_BLOCK_OFFSET, chunk.blockWords, 16);
+    if (blocksCompressed === 0) {
+      for (let i = 0; i < 8; i++) {
+        if (chunk.chainingValue[i] !== keyWords[i]) {
+          throw new Error("Invalid hasher state: chaining value of a fresh chunk must be the key");
+        }
+      }
+    }
+
+    for (let i = 0; i < stackLen; i++) {
+      readLittleEndianWords(
+        state,
+        STATE_HEADER_LEN + i * OUT_LEN,
+        hasher.cvStack.subarray(i * 8, i * 8 + 8),
+        8,
+      );
+    }
+    hasher.cvStackLen = stackLen;
+
+    return hasher;
+  }
+
   /**
    * Create a new keyed hasher (MAC).
    *
@@ -323,7 +568,8 @@ export class Hasher {
     }
 
     const keyWords = new Uint32Array(8);
-    if (IS_LITTLE_ENDIAN) {
+    // Word view needs an aligned key (Node Buffers often are not)
+    if (IS_LITTLE_ENDIAN && (key.byteOffset & 3) === 0) {
       const view = new Uint32Array(key.buffer, key.byteOffset, 8);
       keyWords.set(view);
     } else {
@@ -343,25 +589,8 @@ export class Hasher {
    */
   static newDeriveKey(context: string): Hasher {
     // First, hash the context string with DERIVE_KEY_CONTEXT flag
-    const contextBytes = encodeUTF8(context);
-    const contextHasher = new Hasher(new Uint32Array(IV), DERIVE_KEY_CONTEXT);
-    contextHasher.update(contextBytes);
-
-    // Get the context key
     const contextKey = new Uint32Array(8);
-    const output = contextHasher.finalizeOutput();
-    compress(
-      output.inputCv,
-      0,
-      output.blockWords,
-      0,
-      contextKey,
-      0,
-      false,
-      output.counter,
-      output.blockLen,
-      output.flags | ROOT,
-    );
+    deriveContextKeyWords(context, contextKey);
 
     // Return a hasher initialized with the context key
     return new Hasher(contextKey, DERIVE_KEY_MATERIAL);
@@ -387,11 +616,12 @@ export class Hasher {
    * Add a chunk's chaining value and merge completed subtrees.
    */
   private addChunkCv(newCv: Uint32Array, newCvOffset: number, totalChunks: number): void {
-    // Merge completed subtrees based on trailing zeros in chunk count
+    // Merge completed subtrees based on trailing zeros in chunk count.
+    // Plain arithmetic, since the count may exceed 32 bits.
     const parentBlock = this.parentBlock;
     const parentCv = this.parentCv;
 
-    while ((totalChunks & 1) === 0) {
+    while (totalChunks % 2 === 0) {
       // Pop left child, new CV is right child
       this.popCv(parentBlock, 0);
       parentBlock.set(newCv.subarray(newCvOffset, newCvOffset + 8), 8);
@@ -411,7 +641,33 @@ export class Hasher {
 
       newCv = parentCv;
       newCvOffset = 0;
-      totalChunks >>>= 1;
+      totalChunks /= 2;
+    }
+
+    this.pushCv(newCv, newCvOffset);
+  }
+
+  /**
+   * Same as addChunkCv(), but merges parents with the WASM compressParent
+   * kernel. The arena key words and flags must already be set up.
+   */
+  private addChunkCvSimd(
+    parentBlock: Uint32Array,
+    parentCv: Uint32Array,
+    newCv: Uint32Array,
+    newCvOffset: number,
+    totalChunks: number,
+  ): void {
+    while (totalChunks % 2 === 0) {
+      // Pop left child, new CV is right child
+      this.popCv(parentBlock, 0);
+      parentBlock.set(newCv.subarray(newCvOffset, newCvOffset + 8), 8);
+
+      runCompressParent();
+
+      newCv = parentCv;
+      newCvOffset = 0;
+      totalChunks /= 2;
     }
 
     this.pushCv(newCv, newCvOffset);
@@ -420,10 +676,17 @@ export class Hasher {
   /**
    * Update the hasher with input data.
    *
-   * @param input - Data to hash
+   * @param data - Data to hash: bytes, a string (UTF-8), any ArrayBuffer or
+   *   view of one (its bytes), or an iterable of chunks
    * @returns this (for chaining)
    */
-  update(input: Uint8Array): this {
+  update(data: Input): this {
+    const input = inputBytes(data);
+    if (input === null) {
+      for (const part of data as Iterable<Uint8Array>) this.update(part);
+      return this;
+    }
+
     let inputOffset = 0;
     let inputLen = input.length;
 
@@ -453,6 +716,21 @@ export class Hasher {
         this.chunkState.resetTo(this.keyWords, totalChunks, this.flags);
       }
 
+      // At a chunk boundary with more than one chunk group left, hash whole
+      // groups with the WASM SIMD kernel. The final chunk always goes through
+      // ChunkState since it may turn out to be the root. The kernel only takes
+      // 32-bit chunk counters.
+      if (
+        inputLen > SIMD_GROUP_LEN &&
+        this.chunkState.len() === 0 &&
+        this.chunkState.chunkCounter + 4 <= 0x100000000 &&
+        ensureSimdSync()
+      ) {
+        const consumed = this.updateSimd(input, inputOffset, inputLen);
+        inputOffset += consumed;
+        inputLen -= consumed;
+      }
+
       // Fill the current chunk
       const want = CHUNK_LEN - this.chunkState.len();
       const take = Math.min(want, inputLen);
@@ -465,8 +743,57 @@ export class Hasher {
     return this;
   }
 
+  /**
+   * Hash whole groups of 4 chunks with the WASM SIMD kernel, leaving at least
+   * one byte for the scalar path. Must be called at a chunk boundary.
+   * Returns the number of bytes consumed.
+   */
+  private updateSimd(input: Uint8Array, inputOffset: number, inputLen: number): number {
+    const mem = getSimdMemory();
+    const arena = getArenaBuffers();
+    if (!mem || !arena) return 0;
+
+    // Key words and flags for the WASM parent compress
+    arena.parentKey.set(this.keyWords);
+    arena.parentFlags[0] = this.flags | PARENT;
+
+    // Create Uint32Array view once per update call (only used when chunk offsets are aligned)
+    const inputWords =
+      IS_LITTLE_ENDIAN && input.byteOffset % 4 === 0
+        ? new Uint32Array(input.buffer, input.byteOffset, input.byteLength >>> 2)
+        : null;
+    const groupCvs = this.groupCvs;
+    let chunkCounter = this.chunkState.chunkCounter;
+    let consumed = 0;
+
+    while (inputLen - consumed > SIMD_GROUP_LEN && chunkCounter + 4 <= 0x100000000) {
+      compressChunkGroupSimd(
+        mem.view32,
+        input,
+        inputWords,
+        inputOffset + consumed,
+        chunkCounter,
+        this.keyWords,
+        this.flags,
+        groupCvs,
+      );
+
+      this.addChunkCvSimd(arena.parentBlock, arena.chunkCv, groupCvs, 0, chunkCounter + 1);
+      this.addChunkCvSimd(arena.parentBlock, arena.chunkCv, groupCvs, 8, chunkCounter + 2);
+      this.addChunkCvSimd(arena.parentBlock, arena.chunkCv, groupCvs, 16, chunkCounter + 3);
+      this.addChunkCvSimd(arena.parentBlock, arena.chunkCv, groupCvs, 24, chunkCounter + 4);
+
+      chunkCounter += 4;
+      consumed += SIMD_GROUP_LEN;
+    }
+
+    this.chunkState.resetTo(this.keyWords, chunkCounter, this.flags);
+    return consumed;
+  }
+
   /**
    * Get the output parameters (for XOF mode or finalization).
+   * Walks the CV stack without popping it, so the hasher state is unchanged.
    */
   private finalizeOutput(): {
     inputCv: Uint32Array;
@@ -481,7 +808,8 @@ export class Hasher {
     let cv = this.finalizeCv;
 
     // If there are chunks on the stack, merge them
-    if (this.cvStackLen > 0) {
+    let stackLen = this.cvStackLen;
+    if (stackLen > 0) {
       // First compress the current chunk
       compress(
         output.inputCv,
@@ -497,12 +825,12 @@ export class Hasher {
       );
 
       // Merge with parent nodes from stack
-      while (this.cvStackLen > 0) {
-        this.cvStackLen--;
-        parentBlock.set(this.cvStack.subarray(this.cvStackLen * 8, (this.cvStackLen + 1) * 8), 0);
+      while (stackLen > 0) {
+        stackLen--;
+        parentBlock.set(this.cvStack.subarray(stackLen * 8, (stackLen + 1) * 8), 0);
         parentBlock.set(cv, 8);
 
-        if (this.cvStackLen > 0) {
+        if (stackLen > 0) {
           compress(
             this.keyWords,
             0,
@@ -534,6 +862,7 @@ export class Hasher {
 
   /**
    * Finalize the hash and return the result.
+   * Non-destructive: more input may be added afterwards.
    *
    * @param outputLength - Number of bytes to output (default: 32)
    * @returns The hash output
@@ -565,17 +894,33 @@ export class Hasher {
         writeLittleEndianBytesPartial(outWords, 0, result, 0, outputLength);
       }
     } else {
-      // Multiple blocks - use XOF
-      const xof = this.finalizeXof();
-      const full = xof.read(outputLength);
-      result.set(full);
+      // Multiple blocks - use XOF on the output computed above (SIMD for long outputs)
+      new XofReader(
+        output.inputCv,
+        output.blockWords,
+        output.counter,
+        output.blockLen,
+        output.flags,
+      ).readInto(result);
     }
 
     return result;
   }
 
+  /**
+   * Check `tag` against the output of the tag's length, in constant time.
+   * Non-destructive, like finalize(). Use on a keyed hasher to verify a MAC.
+   *
+   * @param tag - Expected output (e.g. a MAC tag)
+   * @returns true if the output matches; false for an empty tag
+   */
+  verify(tag: Uint8Array): boolean {
+    return tag.length > 0 && equals(this.finalize(tag.length), tag);
+  }
+
   /**
    * Finalize and return an XOF reader for arbitrary-length output.
+   * Non-destructive: the reader holds its own copy of the root state.
    */
   finalizeXof(): XofReader {
     const output = this.finalizeOutput();
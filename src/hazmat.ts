@@ -0,0 +1,295 @@
+/**
+ * BLAKE3 hazmat - Low-level subtree API
+ *
+ * Hash pieces of one input independently (e.g. on different machines) and
+ * combine their chaining values, like the Rust crate's `hazmat` module.
+ *
+ * These functions do not check that subtrees are combined in the shape of
+ * the real BLAKE3 tree. Merging the wrong pieces, or using a non-root
+ * chaining value as a hash, silently produces wrong (and possibly insecure)
+ * results.
+ *
+ * @example
+ * ```typescript
+ * import { hash, hazmat } from 'blake3-jit';
+ *
+ * // Split at the left subtree boundary, hash both halves separately
+ * const split = hazmat.leftSubtreeLen(input.length);
+ * const left = hazmat.hashSubtree(input.subarray(0, split), 0);
+ * const right = hazmat.hashSubtree(input.subarray(split), split / 1024);
+ * hazmat.finalizeRoot(left, right); // same as hash(input)
+ * ```
+ */
+
+import { compress } from "./compress.js";
+import {
+  IV,
+  PARENT,
+  KEYED_HASH,
+  DERIVE_KEY_MATERIAL,
+  BLOCK_LEN,
+  CHUNK_LEN,
+  OUT_LEN,
+  KEY_LEN,
+  MAX_DEPTH,
+} from "./constants.js";
+import {
+  compressChunkGroupSimd,
+  deriveContextKeyWords,
+  ensureSimdSync,
+  hashChunkWithWords,
+} from "./hash.js";
+import { XofReader } from "./hasher.js";
+import { readLittleEndianWords, writeLittleEndianWords } from "./utils.js";
+import { getSimdMemory } from "./wasm-simd.js";
+
+/**
+ * Hashing mode of a subtree: key words and domain separation flags.
+ * Create with HASH_MODE, keyedMode() or deriveKeyMode().
+ */
+export interface Mode {
+  readonly keyWords: Uint32Array;
+  readonly flags: number;
+}
+
+/** Regular hashing (same as hash()). */
+export const HASH_MODE: Mode = { keyWords: IV, flags: 0 };
+
+/**
+ * Keyed hashing (same as keyedHash()).
+ *
+ * @param key - 32-byte key
+ */
+export function keyedMode(key: Uint8Array): Mode {
+  if (key.length !== KEY_LEN) {
+    throw new Error(`Key must be ${KEY_LEN} bytes, got ${key.length}`);
+  }
+  const keyWords = new Uint32Array(8);
+  readLittleEndianWords(key, 0, keyWords, 8);
+  return { keyWords, flags: KEYED_HASH };
+}
+
+/**
+ * Key derivation of the key material (same as deriveKey(context, ...)).
+ *
+ * @param context - Context string for domain separation
+ */
+export function deriveKeyMode(context: string): Mode {
+  const keyWords = new Uint32Array(8);
+  deriveContextKeyWords(context, keyWords);
+  return { keyWords, flags: DERIVE_KEY_MATERIAL };
+}
+
+// ===== Module-level reusable buffers (single-threaded safe) =====
+const cvStack = new Uint32Array(MAX_DEPTH * 8);
+const chunkCv = new Uint32Array(8);
+const groupCvs = new Uint32Array(32);
+const parentBlock = new Uint32Array(16);
+
+/**
+ * Largest subtree (in bytes) that may start at `startChunk`: subtrees are
+ * aligned to their size rounded up to a power of two chunks.
+ *
+ * @returns Maximum length in bytes, or Infinity for chunk 0
+ */
+export function maxSubtreeLen(startChunk: number): number {
+  if (!Number.isSafeInteger(startChunk) || startChunk < 0) {
+    throw new Error(`Invalid chunk counter: ${startChunk}`);
+  }
+  if (startChunk === 0) return Number.POSITIVE_INFINITY;
+
+  // Lowest set bit, for counters beyond 32 bits too
+  let lowestBit = 1;
+  while ((startChunk / lowestBit) % 2 === 0) lowestBit *= 2;
+  return lowestBit * CHUNK_LEN;
+}
+
+/**
+ * Length in bytes of the left subtree of the root for an input of
+ * `inputLen` bytes: the largest power of two chunks less than the total.
+ *
+ * @param inputLen - Total input length (must be more than 1 chunk)
+ */
+export function leftSubtreeLen(inputLen: number): number {
+  if (!Number.isSafeInteger(inputLen) || inputLen <= CHUNK_LEN) {
+    throw new Error(`Input of ${inputLen} bytes has no subtrees`);
+  }
+  const chunks = Math.ceil(inputLen / CHUNK_LEN);
+  let left = 1;
+  while (left * 2 < chunks) left *= 2;
+  return left * CHUNK_LEN;
+}
+
+function readChainingValue(cv: Uint8Array, name: string, block: Uint32Array, offset: number): void {
+  if (cv.length !== OUT_LEN) {
+    throw new Error(`${name} chaining value must be ${OUT_LEN} bytes, got ${cv.length}`);
+  }
+  readLittleEndianWords(cv, 0, block.subarray(offset, offset + 8), 8);
+}
+
+/**
+ * Merge a chaining value into the subtree CV stack.
+ * `totalChunks` counts chunks from the start of the subtree, so complete
+ * subtrees are merged the same way as in Hasher.addChunkCv().
+ */
+function pushChunkCv(
+  mode: Mode,
+  stackLen: number,
+  cv: Uint32Array,
+  cvOffset: number,
+  totalChunks: number,
+): number {
+  while (totalChunks % 2 === 0) {
+    stackLen--;
+    parentBlock.set(cvStack.subarray(stackLen * 8, stackLen * 8 + 8), 0);
+    parentBlock.set(cv.subarray(cvOffset, cvOffset + 8), 8);
+    compress(
+      mode.keyWords,
+      0,
+      parentBlock,
+      0,
+      chunkCv,
+      0,
+      false,
+      0,
+      BLOCK_LEN,
+      mode.flags | PARENT,
+    );
+    cv = chunkCv;
+    cvOffset = 0;
+    totalChunks /= 2;
+  }
+  cvStack.set(cv.subarray(cvOffset, cvOffset + 8), stackLen * 8);
+  return stackLen + 1;
+}
+
+/**
+ * Compute the non-root chaining value of the subtree covering `input`,
+ * whose first chunk has counter `startChunk` in the full input.
+ *
+ * @param input - Subtree input (at most maxSubtreeLen(startChunk) bytes)
+ * @param startChunk - Chunk counter of the first chunk (input offset / 1024)
+ * @param mode - Hashing mode (default: HASH_MODE)
+ * @returns 32-byte chaining value
+ */
+export function hashSubtree(
+  input: Uint8Array,
+  startChunk: number,
+  mode: Mode = HASH_MODE,
+): Uint8Array {
+  const maxLen = maxSubtreeLen(startChunk);
+  if (input.length === 0) {
+    throw new Error("Subtree input must not be empty");
+  }
+  if (input.length > maxLen) {
+    throw new Error(
+      `Subtree of ${input.length} bytes exceeds ${maxLen} bytes allowed at chunk ${startChunk}`,
+    );
+  }
+
+  const chunks = Math.ceil(input.length / CHUNK_LEN);
+  const mem = chunks >= 4 && ensureSimdSync() ? getSimdMemory() : null;
+  let stackLen = 0;
+  let chunk = 0;
+
+  while (chunk < chunks) {
+    const offset = chunk * CHUNK_LEN;
+    const counter = startChunk + chunk;
+
+    // 4 full chunks at once with WASM SIMD (the kernel takes 32-bit counters)
+    if (mem && offset + 4 * CHUNK_LEN <= input.length && counter + 4 <= 0x100000000) {
+      compressChunkGroupSimd(
+        mem.view32,
+        input,
+        null,
+        offset,
+        counter,
+        mode.keyWords,
+        mode.flags,
+        groupCvs,
+      );
+      for (let i = 0; i < 4; i++) {
+        stackLen = pushChunkCv(mode, stackLen, groupCvs, i * 8, chunk + i + 1);
+      }
+      chunk += 4;
+      continue;
+    }
+
+    const len = Math.min(CHUNK_LEN, input.length - offset);
+    hashChunkWithWords(input, null, offset, len, counter, mode.keyWords, mode.flags, chunkCv, 0);
+    stackLen = pushChunkCv(mode, stackLen, chunkCv, 0, chunk + 1);
+    chunk++;
+  }
+
+  // Merge what remains on the stack, right to left (all non-root)
+  const cv = new Uint32Array(cvStack.subarray((stackLen - 1) * 8, stackLen * 8));
+  for (let i = stackLen - 2; i >= 0; i--) {
+    parentBlock.set(cvStack.subarray(i * 8, i * 8 + 8), 0);
+    parentBlock.set(cv, 8);
+    compress(mode.keyWords, 0, parentBlock, 0, cv, 0, false, 0, BLOCK_LEN, mode.flags | PARENT);
+  }
+
+  const result = new Uint8Array(OUT_LEN);
+  writeLittleEndianWords(cv, 0, result, 0);
+  return result;
+}
+
+/**
+ * Merge the chaining values of two sibling subtrees into their (non-root)
+ * parent chaining value.
+ *
+ * @param left - 32-byte chaining value of the left subtree
+ * @param right - 32-byte chaining value of the right subtree
+ * @param mode - Hashing mode (default: HASH_MODE)
+ * @returns 32-byte parent chaining value
+ */
+export function mergeSubtrees(
+  left: Uint8Array,
+  right: Uint8Array,
+  mode: Mode = HASH_MODE,
+): Uint8Array {
+  readChainingValue(left, "Left", parentBlock, 0);
+  readChainingValue(right, "Right", parentBlock, 8);
+  compress(mode.keyWords, 0, parentBlock, 0, chunkCv, 0, false, 0, BLOCK_LEN, mode.flags | PARENT);
+
+  const result = new Uint8Array(OUT_LEN);
+  writeLittleEndianWords(chunkCv, 0, result, 0);
+  return result;
+}
+
+/**
+ * Create an XOF reader for the root node whose children are `left` and
+ * `right`. Use for outputs read at an offset or in pieces.
+ *
+ * @param left - 32-byte chaining value of the root's left subtree
+ * @param right - 32-byte chaining value of the root's right subtree
+ * @param mode - Hashing mode (default: HASH_MODE)
+ */
+export function rootOutputReader(
+  left: Uint8Array,
+  right: Uint8Array,
+  mode: Mode = HASH_MODE,
+): XofReader {
+  const block = new Uint32Array(16);
+  readChainingValue(left, "Left", block, 0);
+  readChainingValue(right, "Right", block, 8);
+  return new XofReader(new Uint32Array(mode.keyWords), block, 0, BLOCK_LEN, mode.flags | PARENT);
+}
+
+/**
+ * Finalize the root node whose children are `left` and `right`.
+ *
+ * @param left - 32-byte chaining value of the root's left subtree
+ * @param right - 32-byte chaining value of the root's right subtree
+ * @param mode - Hashing mode (default: HASH_MODE)
+ * @param outputLength - Number of bytes to output (default: 32)
+ * @returns The hash of the full input
+ */
+export function finalizeRoot(
+  left: Uint8Array,
+  right: Uint8Array,
+  mode: Mode = HASH_MODE,
+  outputLength: number = OUT_LEN,
+): Uint8Array {
+  return rootOutputReader(left, right, mode).read(outputLength);
+}
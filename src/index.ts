@@ -10,24 +10,73 @@
  *
  * @example
  * ```typescript
- * import { hash, createKeyed, createDeriveKey } from 'blake3-jit';
+ * import { hash, keyedHash, deriveKey, createKeyed, createDeriveKey } from 'blake3-jit';
  *
  * // Simple hashing
  * const digest = hash(new Uint8Array([1, 2, 3]));
  *
  * // Keyed hashing (MAC)
  * const mac = createKeyed(key).update(data).finalize();
+ * const oneShotMac = keyedHash(key, data);
  *
  * // Key derivation
  * const derived = createDeriveKey("my context").update(material).finalize(64);
+ * const oneShotDerived = deriveKey("my context", material, 64);
  * ```
  */
 
 // Core exports
 export { Hasher, XofReader } from "./hasher.js";
-export { hash, hashInto, warmupSimd } from "./hash.js";
+export { DeriveKeyContext, prepareDeriveKeyContext } from "./derive-key.js";
+export { hashMany, hashManyStrided } from "./hash-many.js";
+export * as hazmat from "./hazmat.js";
+export * as bao from "./bao/index.js";
+export { proveChunk, verifyChunkProof } from "./proof.js";
+export { parseManifest, formatManifest, formatManifestLine, verifyManifest } from "./manifest.js";
+export type {
+  ManifestFormat,
+  ManifestEntry,
+  MalformedLine,
+  ParsedManifest,
+  ManifestFileContents,
+  ManifestFileReader,
+  ManifestStatus,
+  ManifestResult,
+  ManifestVerification,
+  VerifyManifestOptions,
+} from "./manifest.js";
+export { HashPool, createHashPool, hashParallel } from "./parallel.js";
+export type { HashPoolOptions } from "./parallel.js";
+export { Blake3Stream, digestStream } from "./web-stream.js";
+export type { HashModeOptions } from "./hash-options.js";
+export type { Input } from "./utils.js";
+export {
+  hash,
+  hashInto,
+  keyedHash,
+  keyedHashInto,
+  deriveKey,
+  deriveKeyInto,
+  warmupSimd,
+  initSimd,
+} from "./hash.js";
+export {
+  toHex,
+  fromHex,
+  toBase64url,
+  toBase32,
+  equals,
+  verifyKeyed,
+  hashHex,
+  keyedHashHex,
+  deriveKeyHex,
+} from "./digest.js";
+export { getSimdStatus } from "./wasm-simd.js";
+export type { SimdStatus } from "./wasm-simd.js";
 
 // Convenience imports
+import { prepareDeriveKeyContext } from "./derive-key.js";
+import { hashMany, hashManyStrided } from "./hash-many.js";
 import { Hasher } from "./hasher.js";
 
 /**
@@ -85,22 +134,36 @@ export function createHasher(): Hasher {
 }
 
 // Import for default export
-import { hash, hashInto, warmupSimd } from "./hash.js";
+import {
+  hash,
+  hashInto,
+  keyedHash,
+  keyedHashInto,
+  deriveKey,
+  deriveKeyInto,
+  initSimd,
+} from "./hash.js";
 
 // Pre-warm SIMD in browser environments (non-blocking)
-// This avoids initialization latency on first large hash
+// Async compilation avoids main-thread limits on synchronous WebAssembly.Module;
+// large hashes use the pure JS path until it resolves
 if (typeof globalThis !== "undefined" && typeof globalThis.document !== "undefined") {
-  queueMicrotask(() => {
-    warmupSimd();
-  });
+  void initSimd();
 }
 
 // Default export for convenience
 export default {
   hash,
   hashInto,
+  hashMany,
+  hashManyStrided,
+  keyedHash,
+  keyedHashInto,
+  deriveKey,
+  deriveKeyInto,
   Hasher,
   createHasher,
   createKeyed,
   createDeriveKey,
+  prepareDeriveKeyContext,
 };
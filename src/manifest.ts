@@ -0,0 +1,327 @@
+/**
+ * b3sum checksum manifests - parse, generate and verify
+ *
+ * Two line formats are supported, as written by `b3sum` and `b3sum --tag`:
+ *
+ *   GNU: `<hex>  <name>`
+ *   BSD: `BLAKE3 (<name>) = <hex>`
+ *
+ * Names containing a backslash, newline or carriage return are escaped
+ * (`\\`, `\n`, `\r`) and the line then starts with a backslash.
+ */
+
+import { equals, fromHex, toHex } from "./digest.js";
+import { hasherForOptions } from "./hash-options.js";
+
+/**
+ * Line format of a manifest entry.
+ */
+export type ManifestFormat = "gnu" | "bsd";
+
+/**
+ * A parsed checksum line.
+ */
+export interface ManifestEntry {
+  /** File name, unescaped */
+  name: string;
+  /** Expected digest; its length is the output length to verify with */
+  digest: Uint8Array;
+  /** Line format */
+  format: ManifestFormat;
+  /** 1-based line number */
+  line: number;
+}
+
+/**
+ * A line that is not a valid checksum line.
+ */
+export interface MalformedLine {
+  /** 1-based line number */
+  line: number;
+  /** Line contents */
+  text: string;
+}
+
+/**
+ * Result of parseManifest().
+ */
+export interface ParsedManifest {
+  entries: ManifestEntry[];
+  malformed: MalformedLine[];
+}
+
+/**
+ * Contents of a manifest entry's file, returned by a ManifestFileReader:
+ * all bytes at once or as a sequence of chunks. `null` or `undefined` means
+ * the file does not exist.
+ */
+export type ManifestFileContents =
+  | Uint8Array
+  | Iterable<Uint8Array>
+  | AsyncIterable<Uint8Array>
+  | null
+  | undefined;
+
+/**
+ * Reads the file named by a manifest entry. Throwing (or an iterable that
+ * throws) marks the entry as missing, with the error attached.
+ */
+export type ManifestFileReader = (
+  name: string,
+) => ManifestFileContents | Promise<ManifestFileContents>;
+
+/**
+ * Verification status of a manifest line.
+ */
+export type ManifestStatus = "ok" | "mismatch" | "missing" | "malformed";
+
+/**
+ * Verification result of a manifest line.
+ */
+export interface ManifestResult {
+  status: ManifestStatus;
+  /** 1-based line number */
+  line: number;
+  /** File name (undefined for malformed lines) */
+  name?: string;
+  /** Expected digest (undefined for malformed lines) */
+  expected?: Uint8Array;
+  /** Computed digest (for ok and mismatch) */
+  actual?: Uint8Array;
+  /** Why the file could not be read (for missing files, if the reader threw) */
+  error?: unknown;
+  /** Line contents (for malformed lines) */
+  text?: string;
+}
+
+/**
+ * Result of verifyManifest().
+ */
+export interface ManifestVerification {
+  /** True if every line is ok */
+  ok: boolean;
+  /** One result per non-empty line, in line order */
+  results: ManifestResult[];
+}
+
+/**
+ * Options for verifyManifest().
+ */
+export interface VerifyManifestOptions {
+  /** 32-byte key, for manifests of keyed hashes */
+  key?: Uint8Array;
+  /** Context string, for manifests of derived keys */
+  context?: string;
+  /** Called with each result as soon as it is known, in line order */
+  onResult?: (result: ManifestResult) => void;
+}
+
+const GNU_LINE = /^([0-9a-fA-F]+) {2}(.+)$/;
+const BSD_LINE = /^BLAKE3 \((.+)\) = ([0-9a-fA-F]+)$/;
+
+function escapeName(name: string): { name: string; escaped: boolean } {
+  if (!/[\\\n\r]/.test(name)) return { name, escaped: false };
+  return {
+    name: name.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/\r/g, "\\r"),
+    escaped: true,
+  };
+}
+
+function unescapeName(name: string): string | null {
+  let result = "";
+  for (let i = 0; i < name.length; i++) {
+    const c = name[i];
+    if (c !== "\\") {
+      result += c;
+      continue;
+    }
+    const next = name[++i];
+    if (next === "\\") result += "\\";
+    else if (next === "n") result += "\n";
+    else if (next === "r") result += "\r";
+    else return null;
+  }
+  return result;
+}
+
+/**
+ * Parse one line (without its line terminator).
+ *
+ * @returns The entry, or null if the line is malformed
+ */
+function parseLine(text: string, line: number): ManifestEntry | null {
+  const escaped = text.startsWith("\\");
+  const body = escaped ? text.slice(1) : text;
+
+  let format: ManifestFormat;
+  let hex: string;
+  let rawName: string;
+  let match = GNU_LINE.exec(body);
+  if (match) {
+    format = "gnu";
+    [, hex, rawName] = match;
+  } else {
+    match = BSD_LINE.exec(body);
+    if (!match) return null;
+    format = "bsd";
+    [, rawName, hex] = match;
+  }
+
+  if (hex.length % 2 !== 0) return null;
+  const name = escaped ? unescapeName(rawName) : rawName;
+  if (name === null) return null;
+  return { name, digest: fromHex(hex), format, line };
+}
+
+/**
+ * Parse a checksum manifest. Empty lines are skipped; lines may end in
+ * `\n` or `\r\n`.
+ *
+ * @param text - Manifest contents
+ * @returns The checksum entries and the malformed lines
+ *
+ * @example
+ * ```typescript
+ * const { entries, malformed } = parseManifest(text);
+ * ```
+ */
+export function parseManifest(text: string): ParsedManifest {
+  const entries: ManifestEntry[] = [];
+  const malformed: MalformedLine[] = [];
+  const lines = text.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i];
+    if (line.endsWith("\r")) line = line.slice(0, -1);
+    if (line === "") continue;
+    const entry = parseLine(line, i + 1);
+    if (entry) entries.push(entry);
+    else malformed.push({ line: i + 1, text: line });
+  }
+  return { entries, malformed };
+}
+
+/**
+ * Format one checksum line, including the trailing newline.
+ *
+ * @param name - File name (escaped as needed)
+ * @param digest - Digest of the file
+ * @param format - Line format (default: 'gnu')
+ */
+export function formatManifestLine(
+  name: string,
+  digest: Uint8Array,
+  format: ManifestFormat = "gnu",
+): string {
+  const escaped = escapeName(name);
+  const prefix = escaped.escaped ? "\\" : "";
+  const hex = toHex(digest);
+  return format === "bsd"
+    ? `${prefix}BLAKE3 (${escaped.name}) = ${hex}\n`
+    : `${prefix}${hex}  ${escaped.name}\n`;
+}
+
+/**
+ * Format a checksum manifest.
+ *
+ * @param entries - File names and digests, in output order
+ * @param format - Line format (default: 'gnu')
+ */
+export function formatManifest(
+  entries: Iterable<{ name: string; digest: Uint8Array }>,
+  format: ManifestFormat = "gnu",
+): string {
+  let text = "";
+  for (const { name, digest } of entries) {
+    text += formatManifestLine(name, digest, format);
+  }
+  return text;
+}
+
+/**
+ * Escape a name for display the way manifest lines do.
+ * Internal: used by the b3sum-jit CLI for its check output.
+ *
+ * @returns The escaped name, prefixed with a backslash if anything was escaped
+ */
+export function displayName(name: string): string {
+  const escaped = escapeName(name);
+  return escaped.escaped ? `\\${escaped.name}` : name;
+}
+
+async function verifyEntry(
+  entry: ManifestEntry,
+  readFile: ManifestFileReader,
+  options: VerifyManifestOptions,
+): Promise<ManifestResult> {
+  const { name, digest: expected, line } = entry;
+  const { hasher, outputLength } = hasherForOptions({
+    key: options.key,
+    context: options.context,
+    outputLength: expected.length,
+  });
+
+  try {
+    const contents = await readFile(name);
+    if (contents === null || contents === undefined) {
+      return { status: "missing", line, name, expected };
+    }
+    if (contents instanceof Uint8Array) {
+      hasher.update(contents);
+    } else if (Symbol.asyncIterator in contents) {
+      for await (const part of contents) hasher.update(part);
+    } else {
+      for (const part of contents) hasher.update(part);
+    }
+  } catch (error) {
+    return { status: "missing", line, name, expected, error };
+  }
+
+  const actual = hasher.finalize(outputLength);
+  const status = equals(actual, expected) ? "ok" : "mismatch";
+  return { status, line, name, expected, actual };
+}
+
+/**
+ * Verify every entry of a checksum manifest. Files are read one at a time,
+ * in line order.
+ *
+ * @param manifest - Manifest text, or the result of parseManifest()
+ * @param readFile - Reads the file named by an entry
+ * @param options - Hashing mode of the manifest (default: plain hash)
+ * @returns One result per line, and whether all of them are ok
+ *
+ * @example
+ * ```typescript
+ * const { ok, results } = await verifyManifest(text, (name) => readFile(join(root, name)));
+ * for (const result of results) {
+ *   if (result.status !== 'ok') console.log(`${result.name ?? result.text}: ${result.status}`);
+ * }
+ * ```
+ */
+export async function verifyManifest(
+  manifest: string | ParsedManifest,
+  readFile: ManifestFileReader,
+  options: VerifyManifestOptions = {},
+): Promise<ManifestVerification> {
+  const { entries, malformed } = typeof manifest === "string" ? parseManifest(manifest) : manifest;
+
+  // Merge entries and malformed lines back into line order
+  const results: ManifestResult[] = [];
+  let next = 0;
+  for (const entry of entries) {
+    while (next < malformed.length && malformed[next].line < entry.line) {
+      const { line, text } = malformed[next++];
+      results.push({ status: "malformed", line, text });
+      options.onResult?.(results[results.length - 1]);
+    }
+    results.push(await verifyEntry(entry, readFile, options));
+    options.onResult?.(results[results.length - 1]);
+  }
+  while (next < malformed.length) {
+    const { line, text } = malformed[next++];
+    results.push({ status: "malformed", line, text });
+    options.onResult?.(results[results.length - 1]);
+  }
+
+  return { ok: results.every((result) => result.status === "ok"), results };
+}
@@ -0,0 +1,25 @@
+/**
+ * BLAKE3 for Node.js - `blake3-jit/node`
+ *
+ * Integrations with Node.js APIs, on top of the platform-neutral core.
+ *
+ * @example
+ * ```typescript
+ * import { createHash, createHashStream } from 'blake3-jit/node';
+ *
+ * const hashing = createHashStream({ outputLength: 64 });
+ * hashing.on('digest', (digest) => console.log(digest));
+ *
+ * const etag = createHash().update(body).digest('base64url');
+ * ```
+ */
+
+export { HashStream, createHashStream } from "./hash-stream.js";
+export type { HashStreamOptions } from "./hash-stream.js";
+export { Blake3Hash, createHash } from "./crypto-hash.js";
+export { hashFile, hashFileSync } from "./hash-file.js";
+export type { HashFileOptions } from "./hash-file.js";
+export type { HashInput } from "./crypto-hash.js";
+export type { HashModeOptions } from "./hash-options.js";
+export { HashPool, createHashPool, hashParallel } from "./parallel-node.js";
+export type { HashPoolOptions } from "./parallel.js";
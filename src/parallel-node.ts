@@ -0,0 +1,79 @@
+/**
+ * BLAKE3 parallel hashing on Node.js worker_threads
+ *
+ * The same pool as parallel.ts, spawning worker_threads instead of Web
+ * Workers. Kept out of the platform-neutral entry so that bundlers for the
+ * browser never see the node: imports.
+ */
+
+import { availableParallelism } from "node:os";
+import { Worker } from "node:worker_threads";
+
+import { OUT_LEN } from "./constants.js";
+import { HashPool as WebHashPool, type HashPoolOptions, type WorkerRuntime } from "./parallel.js";
+
+const workerThreadsRuntime: WorkerRuntime = {
+  cores: availableParallelism(),
+  spawn(url, onResult, onError) {
+    const worker = new Worker(url);
+    worker.on("message", onResult);
+    worker.on("error", onError);
+    // Idle workers must not keep the process alive
+    worker.unref();
+    return {
+      post: (job, transfer) => worker.postMessage(job, transfer),
+      setActive: (active) => (active ? worker.ref() : worker.unref()),
+      terminate: () => void worker.terminate(),
+    };
+  },
+};
+
+/**
+ * Pool of hash worker threads. Workers are started on first use and stay
+ * idle (without keeping the process alive) until terminate().
+ *
+ * @example
+ * ```typescript
+ * import { createHashPool } from 'blake3-jit/node';
+ *
+ * const pool = createHashPool({ workers: 8 });
+ * const digest = await pool.hash(artifact); // same as hash(artifact)
+ * pool.terminate();
+ * ```
+ */
+export class HashPool extends WebHashPool {
+  protected override runtime(): WorkerRuntime {
+    return workerThreadsRuntime;
+  }
+}
+
+/**
+ * Create a pool of hash worker threads.
+ *
+ * @param options - Worker count and script location
+ */
+export function createHashPool(options?: HashPoolOptions): HashPool {
+  return new HashPool(options);
+}
+
+/**
+ * Hash `input` with a temporary pool of worker threads. Prefer a long-lived
+ * createHashPool() when hashing many inputs.
+ *
+ * @param input - Data to hash
+ * @param outputLength - Number of bytes to output (default: 32)
+ * @param options - Worker count and script location
+ * @returns The same digest as hash(input, outputLength)
+ */
+export async function hashParallel(
+  input: Uint8Array,
+  outputLength: number = OUT_LEN,
+  options?: HashPoolOptions,
+): Promise<Uint8Array> {
+  const pool = new HashPool(options);
+  try {
+    return await pool.hash(input, outputLength);
+  } finally {
+    pool.terminate();
+  }
+}
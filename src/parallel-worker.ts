@@ -0,0 +1,36 @@
+/**
+ * Worker entry for the parallel hash pool (Node worker_threads or Web Workers)
+ *
+ * Each message is one subtree job; the reply is its 32-byte chaining value.
+ */
+
+import { warmupSimd } from "./hash.js";
+import { hashSubtree } from "./hazmat.js";
+import type { SubtreeJob, SubtreeResult } from "./parallel.js";
+
+interface MessagePortLike {
+  postMessage(message: SubtreeResult): void;
+}
+
+function runJob(job: SubtreeJob, port: MessagePortLike): void {
+  const input = new Uint8Array(job.buffer, job.byteOffset, job.length);
+  port.postMessage({ id: job.id, cv: hashSubtree(input, job.startChunk) });
+}
+
+warmupSimd();
+
+const webScope = globalThis as unknown as {
+  postMessage?: (message: SubtreeResult) => void;
+  addEventListener?: (type: "message", listener: (event: { data: SubtreeJob }) => void) => void;
+};
+
+if (typeof webScope.postMessage === "function" && typeof webScope.addEventListener === "function") {
+  const port: MessagePortLike = { postMessage: (message) => webScope.postMessage!(message) };
+  webScope.addEventListener("message", (event) => runJob(event.data, port));
+} else {
+  const { parentPort } = await import("node:worker_threads");
+  if (!parentPort) {
+    throw new Error("parallel-worker must run in a worker thread");
+  }
+  parentPort.on("message", (job: SubtreeJob) => runJob(job, parentPort));
+}
@@ -0,0 +1,388 @@
+/**
+ * BLAKE3 parallel hashing - a worker pool for very large inputs
+ *
+ * The input is split into equal power-of-two subtrees, which are hashed in
+ * Node worker_threads or Web Workers (each running its own WASM SIMD
+ * kernels). The subtree chaining values are merged on the calling thread, so
+ * the result equals hash() exactly.
+ *
+ * Inputs backed by a SharedArrayBuffer are read by the workers in place;
+ * other inputs are copied to the workers one subtree at a time.
+ *
+ * This module only uses Web Workers, so bundlers for the browser accept it;
+ * the worker_threads runtime lives in parallel-node.ts (blake3-jit/node).
+ */
+
+import { CHUNK_LEN, OUT_LEN } from "./constants.js";
+import { hash } from "./hash.js";
+import { HASH_MODE, finalizeRoot, mergeSubtrees } from "./hazmat.js";
+
+/**
+ * Message to a worker: hash the subtree at buffer[byteOffset, byteOffset + length).
+ * Internal: shared with parallel-worker.ts.
+ */
+export interface SubtreeJob {
+  id: number;
+  buffer: ArrayBufferLike;
+  byteOffset: number;
+  length: number;
+  startChunk: number;
+}
+
+/**
+ * Reply from a worker: the subtree's chaining value.
+ * Internal: shared with parallel-worker.ts.
+ */
+export interface SubtreeResult {
+  id: number;
+  cv: Uint8Array;
+}
+
+/**
+ * Options for a HashPool.
+ */
+export interface HashPoolOptions {
+  /** Number of workers (default: number of CPU cores) */
+  workers?: number;
+  /** Worker script (default: parallel-worker.js next to this module) */
+  workerUrl?: string | URL;
+}
+
+// Below this, handing the input to workers costs more than it saves
+const MIN_PARALLEL_LEN = 1024 * CHUNK_LEN; // 1 MiB
+const MIN_SUBTREE_LEN = 256 * CHUNK_LEN; // 256 KiB
+const MAX_SUBTREE_LEN = 16384 * CHUNK_LEN; // 16 MiB
+// Subtrees per worker, so that workers finishing early pick up more
+const SUBTREES_PER_WORKER = 4;
+
+/**
+ * A worker of either runtime.
+ * Internal: shared with parallel-node.ts.
+ */
+export interface PoolWorker {
+  post(job: SubtreeJob, transfer: ArrayBuffer[]): void;
+  /** Whether the worker keeps the process alive (Node only) */
+  setActive(active: boolean): void;
+  terminate(): void;
+}
+
+/**
+ * Spawns the workers of a pool.
+ * Internal: shared with parallel-node.ts.
+ */
+export interface WorkerRuntime {
+  cores: number;
+  spawn(
+    url: string | URL,
+    onResult: (result: SubtreeResult) => void,
+    onError: (error: Error) => void,
+  ): PoolWorker;
+}
+
+// Browsers, Deno and Bun: Web Workers
+const webWorkerRuntime: WorkerRuntime = {
+  cores: globalThis.navigator?.hardwareConcurrency ?? 4,
+  spawn(url, onResult, onError) {
+    const worker = new Worker(url, { type: "module" });
+    worker.onmessage = (event: MessageEvent<SubtreeResult>) => onResult(event.data);
+    worker.onerror = (event) => onError(new Error(`Hash worker failed: ${event.message}`));
+    return {
+      post: (job, transfer) => worker.postMessage(job, transfer),
+      setActive: () => {},
+      terminate: () => worker.terminate(),
+    };
+  },
+};
+
+/**
+ * Subtree size for an input: a power of two chunks, about
+ * SUBTREES_PER_WORKER subtrees per worker.
+ */
+function subtreeLenFor(inputLen: number, workers: number): number {
+  const target = inputLen / (workers * SUBTREES_PER_WORKER);
+  let len = MIN_SUBTREE_LEN;
+  while (len * 2 <= target && len < MAX_SUBTREE_LEN) len *= 2;
+  return len;
+}
+
+/**
+ * Merge the chaining values of consecutive equal-size subtrees cvs[start, end)
+ * in the shape of the BLAKE3 tree (left: largest power of two subtrees).
+ */
+function mergeRange(cvs: Uint8Array[], start: number, end: number): Uint8Array {
+  if (end - start === 1) return cvs[start];
+  const split = start + leftCount(end - start);
+  return mergeSubtrees(mergeRange(cvs, start, split), mergeRange(cvs, split, end));
+}
+
+function leftCount(count: number): number {
+  let left = 1;
+  while (left * 2 < count) left *= 2;
+  return left;
+}
+
+/**
+ * One hash() call in progress.
+ */
+interface PendingHash {
+  cvs: Uint8Array[];
+  remaining: number;
+  outputLength: number;
+  resolve: (digest: Uint8Array) => void;
+  reject: (error: Error) => void;
+}
+
+interface QueuedSubtree {
+  owner: PendingHash;
+  index: number;
+  input: Uint8Array;
+  offset: number;
+  length: number;
+}
+
+/**
+ * Pool of hash Web Workers. Workers are started on first use and stay idle
+ * until terminate(). In Node.js, use the worker_threads pool from
+ * `blake3-jit/node`.
+ *
+ * A worker that fails is replaced: the hashes it was working on are rejected
+ * with its error, and the pool stays usable for other and later hashes.
+ *
+ * @example
+ * ```typescript
+ * const pool = createHashPool({ workers: 8 });
+ * const digest = await pool.hash(artifact); // same as hash(artifact)
+ * pool.terminate();
+ * ```
+ */
+export class HashPool {
+  private workerCount: number;
+  private workerUrl: string | URL;
+  private workers: PoolWorker[];
+  private idle: PoolWorker[];
+  private queue: QueuedSubtree[];
+  private inFlight: Map<number, { subtree: QueuedSubtree; worker: PoolWorker }>;
+  private nextId: number;
+  private terminated: boolean;
+
+  constructor(options: HashPoolOptions = {}) {
+    if (
+      options.workers !== undefined &&
+      (!Number.isSafeInteger(options.workers) || options.workers < 1)
+    ) {
+      throw new Error(`Invalid worker count: ${options.workers}`);
+    }
+    this.workerCount = options.workers ?? 0;
+    this.workerUrl = options.workerUrl ?? new URL("./parallel-worker.js", import.meta.url);
+    this.workers = [];
+    this.idle = [];
+    this.queue = [];
+    this.inFlight = new Map();
+    this.nextId = 0;
+    this.terminated = false;
+  }
+
+  /**
+   * Hash `input` in the pool. Inputs under 1 MiB are hashed on the calling
+   * thread.
+   *
+   * @param input - Data to hash (ideally backed by a SharedArrayBuffer)
+   * @param outputLength - Number of bytes to output (default: 32)
+   * @returns The same digest as hash(input, outputLength)
+   */
+  async hash(input: Uint8Array, outputLength: number = OUT_LEN): Promise<Uint8Array> {
+    if (this.terminated) {
+      throw new Error("HashPool has been terminated");
+    }
+    if (input.length < MIN_PARALLEL_LEN) {
+      return hash(input, outputLength);
+    }
+
+    this.start();
+    const subtreeLen = subtreeLenFor(input.length, this.workers.length);
+    const count = Math.ceil(input.length / subtreeLen);
+
+    return new Promise<Uint8Array>((resolve, reject) => {
+      const owner: PendingHash = {
+        cvs: [],
+        remaining: count,
+        outputLength,
+        resolve,
+        reject,
+      };
+      for (let i = 0; i < count; i++) {
+        const offset = i * subtreeLen;
+        this.queue.push({
+          owner,
+          index: i,
+          input,
+          offset,
+          length: Math.min(subtreeLen, input.length - offset),
+        });
+      }
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stop all workers. Pending hashes are rejected.
+   */
+  terminate(): void {
+    this.terminated = true;
+    const owners = new Set<PendingHash>();
+    for (const subtree of this.queue) owners.add(subtree.owner);
+    for (const { subtree } of this.inFlight.values()) owners.add(subtree.owner);
+    this.queue = [];
+    this.inFlight.clear();
+    for (const worker of this.workers) worker.terminate();
+    this.workers = [];
+    this.idle = [];
+    const error = new Error("HashPool has been terminated");
+    for (const owner of owners) owner.reject(error);
+  }
+
+  /**
+   * The runtime that spawns this pool's workers.
+   */
+  protected runtime(): WorkerRuntime {
+    if (typeof Worker === "undefined") {
+      throw new Error(
+        "Web Workers are not available; in Node.js use HashPool from blake3-jit/node",
+      );
+    }
+    return webWorkerRuntime;
+  }
+
+  /**
+   * Spawn workers up to the pool size (again after a worker failed).
+   */
+  private start(): void {
+    const runtime = this.runtime();
+    const count = this.workerCount || runtime.cores;
+    while (this.workers.length < count) {
+      const worker: PoolWorker = runtime.spawn(
+        this.workerUrl,
+        (result) => this.onResult(result),
+        (error) => this.onWorkerError(worker, error),
+      );
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const subtree = this.queue.shift()!;
+      const { input, offset, length } = subtree;
+      const id = this.nextId++;
+
+      const job: SubtreeJob = {
+        id,
+        buffer: input.buffer,
+        byteOffset: input.byteOffset + offset,
+        length,
+        startChunk: offset / CHUNK_LEN,
+      };
+      const transfer: ArrayBuffer[] = [];
+      if (
+        typeof SharedArrayBuffer === "undefined" ||
+        !(input.buffer instanceof SharedArrayBuffer)
+      ) {
+        // Copy out this subtree and transfer the copy
+        const copy = input.slice(offset, offset + length);
+        job.buffer = copy.buffer;
+        job.byteOffset = 0;
+        transfer.push(copy.buffer);
+      }
+
+      this.inFlight.set(id, { subtree, worker });
+      worker.setActive(true);
+      worker.post(job, transfer);
+    }
+  }
+
+  private onResult(result: SubtreeResult): void {
+    const entry = this.inFlight.get(result.id);
+    if (!entry) return;
+    this.inFlight.delete(result.id);
+    entry.worker.setActive(false);
+    this.idle.push(entry.worker);
+
+    const { owner, index } = entry.subtree;
+    owner.cvs[index] = result.cv;
+    if (--owner.remaining === 0) {
+      const count = owner.cvs.length;
+      const split = leftCount(count);
+      owner.resolve(
+        finalizeRoot(
+          mergeRange(owner.cvs, 0, split),
+          mergeRange(owner.cvs, split, count),
+          HASH_MODE,
+          owner.outputLength,
+        ),
+      );
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Drop a failed worker and reject the hashes it was working on with its
+   * error. Other hashes carry on; queued work gets a replacement worker.
+   */
+  private onWorkerError(worker: PoolWorker, error: Error): void {
+    const index = this.workers.indexOf(worker);
+    // Already dropped, or the pool was terminated
+    if (index === -1) return;
+    this.workers.splice(index, 1);
+    this.idle = this.idle.filter((idle) => idle !== worker);
+    worker.terminate();
+
+    const failed = new Set<PendingHash>();
+    for (const [id, { subtree, worker: busy }] of this.inFlight) {
+      if (busy === worker) {
+        this.inFlight.delete(id);
+        failed.add(subtree.owner);
+      }
+    }
+    // Their subtrees still in flight on other workers finish unused
+    this.queue = this.queue.filter((subtree) => !failed.has(subtree.owner));
+    for (const owner of failed) owner.reject(error);
+
+    if (this.queue.length > 0) {
+      this.start();
+      this.dispatch();
+    }
+  }
+}
+
+/**
+ * Create a pool of hash workers.
+ *
+ * @param options - Worker count and script location
+ */
+export function createHashPool(options?: HashPoolOptions): HashPool {
+  return new HashPool(options);
+}
+
+/**
+ * Hash `input` with a temporary worker pool. Prefer a long-lived
+ * createHashPool() when hashing many inputs.
+ *
+ * @param input - Data to hash
+ * @param outputLength - Number of bytes to output (default: 32)
+ * @param options - Worker count and script location
+ * @returns The same digest as hash(input, outputLength)
+ */
+export async function hashParallel(
+  input: Uint8Array,
+  outputLength: number = OUT_LEN,
+  options?: HashPoolOptions,
+): Promise<Uint8Array> {
+  const pool = new HashPool(options);
+  try {
+    return await pool.hash(input, outputLength);
+  } finally {
+    pool.terminate();
+  }
+}
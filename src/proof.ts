@@ -0,0 +1,155 @@
+/**
+ * BLAKE3 chunk inclusion proofs
+ *
+ * A proof is the chaining values of the siblings along the tree path from a
+ * chunk up to the root, 32 bytes each, nearest sibling first. The tree shape
+ * (left subtrees hold the largest power of two chunks) follows from the
+ * total length, so the proof needs no other metadata.
+ */
+
+import { compress } from "./compress.js";
+import { IV, PARENT, ROOT, BLOCK_LEN, CHUNK_LEN, OUT_LEN, MAX_DEPTH } from "./constants.js";
+import { hash, hashChunkWithWords } from "./hash.js";
+import { hashSubtree, leftSubtreeLen } from "./hazmat.js";
+import { readLittleEndianWords } from "./utils.js";
+
+// ===== Module-level reusable buffers (single-threaded safe) =====
+const parentBlock = new Uint32Array(16);
+const cv = new Uint32Array(8);
+const rootWords = new Uint32Array(8);
+// Whether the path goes right at each level, root first
+const pathRight = new Uint8Array(MAX_DEPTH);
+
+function validateChunkIndex(chunkIndex: number, totalLength: number): void {
+  if (!Number.isSafeInteger(totalLength) || totalLength < 0) {
+    throw new Error(`Invalid total length: ${totalLength}`);
+  }
+  const chunks = totalLength <= CHUNK_LEN ? 1 : Math.ceil(totalLength / CHUNK_LEN);
+  if (!Number.isSafeInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= chunks) {
+    throw new Error(`Chunk index ${chunkIndex} out of range for ${chunks} chunks`);
+  }
+}
+
+/**
+ * Record the path from the root to `chunkIndex` in pathRight.
+ * Returns the path depth (the number of sibling CVs in a proof).
+ */
+function tracePath(chunkIndex: number, totalLength: number): number {
+  const target = chunkIndex * CHUNK_LEN;
+  let offset = 0;
+  let len = totalLength;
+  let depth = 0;
+  while (len > CHUNK_LEN) {
+    const split = leftSubtreeLen(len);
+    if (target < offset + split) {
+      pathRight[depth] = 0;
+      len = split;
+    } else {
+      pathRight[depth] = 1;
+      offset += split;
+      len -= split;
+    }
+    depth++;
+  }
+  return depth;
+}
+
+/**
+ * Build the inclusion proof of chunk `chunkIndex` of `input`.
+ *
+ * @param input - The full input
+ * @param chunkIndex - Index of the 1024-byte chunk to prove
+ * @returns The proof: sibling chaining values, nearest sibling first
+ *
+ * @example
+ * ```typescript
+ * const proof = proveChunk(blob, 3);
+ * verifyChunkProof(hash(blob), 3, blob.subarray(3072, 4096), proof, blob.length); // true
+ * ```
+ */
+export function proveChunk(input: Uint8Array, chunkIndex: number): Uint8Array {
+  validateChunkIndex(chunkIndex, input.length);
+  const depth = tracePath(chunkIndex, input.length);
+  const proof = new Uint8Array(depth * OUT_LEN);
+
+  // Walk down from the root; the sibling at level i goes to slot depth-1-i
+  let offset = 0;
+  let len = input.length;
+  for (let i = 0; i < depth; i++) {
+    const split = leftSubtreeLen(len);
+    let siblingOffset = offset;
+    let siblingLen = split;
+    if (pathRight[i]) {
+      offset += split;
+      len -= split;
+    } else {
+      siblingOffset = offset + split;
+      siblingLen = len - split;
+      len = split;
+    }
+    const sibling = hashSubtree(
+      input.subarray(siblingOffset, siblingOffset + siblingLen),
+      siblingOffset / CHUNK_LEN,
+    );
+    proof.set(sibling, (depth - 1 - i) * OUT_LEN);
+  }
+  return proof;
+}
+
+/**
+ * Check that `chunkBytes` is chunk `chunkIndex` of an input of `totalLength`
+ * bytes whose hash is `root`.
+ *
+ * Only the tree path is bound to `totalLength`: a proof of a chunk other than
+ * the final one also verifies against other lengths with the same path. Prove
+ * the final chunk to authenticate the length.
+ *
+ * @param root - Trusted 32-byte hash of the full input
+ * @param chunkIndex - Index of the chunk
+ * @param chunkBytes - The chunk's content
+ * @param proof - Proof from proveChunk()
+ * @param totalLength - Length of the full input in bytes
+ * @returns Whether the chunk and proof match the root
+ */
+export function verifyChunkProof(
+  root: Uint8Array,
+  chunkIndex: number,
+  chunkBytes: Uint8Array,
+  proof: Uint8Array,
+  totalLength: number,
+): boolean {
+  if (root.length !== OUT_LEN) {
+    throw new Error(`Root hash must be ${OUT_LEN} bytes, got ${root.length}`);
+  }
+  validateChunkIndex(chunkIndex, totalLength);
+
+  const chunkLen = Math.min(CHUNK_LEN, totalLength - chunkIndex * CHUNK_LEN);
+  const depth = tracePath(chunkIndex, totalLength);
+  if (chunkBytes.length !== chunkLen || proof.length !== depth * OUT_LEN) {
+    return false;
+  }
+
+  // A single chunk is the root itself
+  if (depth === 0) {
+    readLittleEndianWords(hash(chunkBytes), 0, cv, 8);
+  } else {
+    hashChunkWithWords(chunkBytes, null, 0, chunkLen, chunkIndex, IV, 0, cv, 0);
+    for (let level = depth - 1; level >= 0; level--) {
+      const siblingOffset = (depth - 1 - level) * OUT_LEN;
+      if (pathRight[level]) {
+        readLittleEndianWords(proof, siblingOffset, parentBlock, 8);
+        parentBlock.set(cv, 8);
+      } else {
+        parentBlock.set(cv, 0);
+        readLittleEndianWords(proof, siblingOffset, parentBlock.subarray(8), 8);
+      }
+      const flags = level === 0 ? PARENT | ROOT : PARENT;
+      compress(IV, 0, parentBlock, 0, cv, 0, false, 0, BLOCK_LEN, flags);
+    }
+  }
+
+  readLittleEndianWords(root, 0, rootWords, 8);
+  let diff = 0;
+  for (let i = 0; i < 8; i++) diff |= cv[i] ^ rootWords[i];
+  return diff === 0;
+}
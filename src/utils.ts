@@ -159,9 +159,43 @@ export function writeLittleEndianBytesPartial(
   }
 }
 
+/**
+ * Input accepted by hash(), hashInto() and Hasher.update():
+ * - Uint8Array (and Buffer)
+ * - string, hashed as UTF-8
+ * - ArrayBuffer or SharedArrayBuffer
+ * - any other ArrayBufferView (TypedArray, DataView), hashed as its bytes
+ * - Iterable<Uint8Array>, hashed as the concatenation of its chunks
+ */
+export type Input = string | ArrayBufferLike | ArrayBufferView | Iterable<Uint8Array>;
+
+/**
+ * Internal: The bytes of an input, or null for an iterable of chunks.
+ * Views are reinterpreted as bytes without copying.
+ */
+export function inputBytes(input: Input): Uint8Array | null {
+  if (input instanceof Uint8Array) return input;
+  if (typeof input === "string") return encodeUTF8(input);
+  if (ArrayBuffer.isView(input)) {
+    return new Uint8Array(input.buffer, input.byteOffset, input.byteLength);
+  }
+  if (
+    input instanceof ArrayBuffer ||
+    (typeof SharedArrayBuffer !== "undefined" && input instanceof SharedArrayBuffer)
+  ) {
+    return new Uint8Array(input);
+  }
+  if (input !== null && typeof input === "object" && Symbol.iterator in input) {
+    return null;
+  }
+  throw new TypeError(
+    "Input must be a string, ArrayBuffer, TypedArray, DataView or iterable of Uint8Array",
+  );
+}
+
 /**
  * Encode a UTF-8 string to Uint8Array.
- * Used for derive_key context strings.
+ * Used for derive_key context strings and string input.
  */
 export function encodeUTF8(str: string): Uint8Array {
   if (typeof TextEncoder !== "undefined") {
@@ -240,6 +274,25 @@ export function countTrailingZeros(n: number): number {
   return 64;
 }
 
+/**
+ * Count set bits in a non-negative integer up to 2^53.
+ * Used to check that a CV stack length matches its chunk counter.
+ */
+export function popcount64(n: number): number {
+  let count = 0;
+  let low = n >>> 0;
+  let high = Math.floor(n / 0x100000000);
+  while (low !== 0) {
+    low &= low - 1;
+    count++;
+  }
+  while (high !== 0) {
+    high &= high - 1;
+    count++;
+  }
+  return count;
+}
+
 /**
  * Create a Uint32Array view of a Uint8Array.
  * Only works correctly on little-endian systems when the offset is 4-byte aligned.
@@ -251,3 +304,22 @@ export function countTrailingZeros(n: number): number {
 export function uint32View(arr: Uint8Array, byteOffset: number, wordLength: number): Uint32Array {
   return new Uint32Array(arr.buffer, arr.byteOffset + byteOffset, wordLength);
 }
+
+/**
+ * Compare two byte arrays in constant time: the running time depends only
+ * on the length, not on where (or whether) the contents differ. Arrays of
+ * different lengths compare unequal immediately, as lengths are not secret.
+ *
+ * @example
+ * ```typescript
+ * if (!equals(keyedHash(key, body), tag)) throw new Error('Bad signature');
+ * ```
+ */
+export function equals(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
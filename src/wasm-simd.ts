@@ -15,6 +15,9 @@
  *   784-799:  4 x counter high
  *   800-815:  4 x block length
  *   816-831:  4 x flags
+ *
+ * compressXof4x shares this layout but writes 4 x 16 output words (full
+ * root output blocks) to XOF_OUTPUT instead.
  */
 
 // LEB128 encoding with minimum 2 bytes
@@ -83,7 +86,8 @@ const MSG_ACCESS_ORDER = [
 // CHUNK_START = 1, CHUNK_END = 2 are embedded directly in WASM bytecode
 
 /**
- * Generate the WASM module bytecode with compress4x, compressChunks4x, and compressParent functions.
+ * Generate the WASM module bytecode with compress4x, compressChunks4x, compressParent
+ * and compressXof4x functions.
  */
 function generateWasmBytes(): Uint8Array {
   const code: number[] = [];
@@ -113,17 +117,19 @@ function generateWasmBytes(): Uint8Array {
 
   // Section 3: Functions
   put([0x03]); // Section ID
-  put([0x04]); // Section size (3 functions = 4 bytes)
-  put([0x03]); // 3 functions
+  put([0x05]); // Section size (4 functions = 5 bytes)
+  put([0x04]); // 4 functions
   put([0x00]); // Function 0: type index 0
   put([0x00]); // Function 1: type index 0
   put([0x00]); // Function 2: type index 0
+  put([0x00]); // Function 3: type index 0
 
   // Section 7: Exports
-  // Size calculation: 1 (count) + (1+10+1+1) + (1+16+1+1) + (1+14+1+1) = 1 + 13 + 19 + 17 = 50 bytes
+  // Size calculation: 1 (count) + (1+10+1+1) + (1+16+1+1) + (1+14+1+1) + (1+13+1+1)
+  //                 = 1 + 13 + 19 + 17 + 16 = 66 bytes
   put([0x07]); // Section ID
-  put([0x32]); // Section size (50 bytes)
-  put([0x03]); // 3 exports
+  put([0x42]); // Section size (66 bytes)
+  put([0x04]); // 4 exports
   // "compress4x" -> func 0
   put([0x0a]); // name length
   put([0x63, 0x6f, 0x6d, 0x70, 0x72, 0x65, 0x73, 0x73, 0x34, 0x78]); // "compress4x"
@@ -138,6 +144,10 @@ function generateWasmBytes(): Uint8Array {
   put([0x0e]); // name length (14)
   put([0x63, 0x6f, 0x6d, 0x70, 0x72, 0x65, 0x73, 0x73, 0x50, 0x61, 0x72, 0x65, 0x6e, 0x74]); // "compressParent"
   put([0x00, 0x02]); // func index 2
+  // "compressXof4x" -> func 3
+  put([0x0d]); // name length (13)
+  put([0x63, 0x6f, 0x6d, 0x70, 0x72, 0x65, 0x73, 0x73, 0x58, 0x6f, 0x66, 0x34, 0x78]); // "compressXof4x"
+  put([0x00, 0x03]); // func index 3
 
   // Section 10: Code
   put([0x0a]); // Section ID
@@ -145,7 +155,7 @@ function generateWasmBytes(): Uint8Array {
   const sectionSizeOffset = code.length;
   put([0x00, 0x00, 0x00, 0x00, 0x00]);
 
-  put([0x03]); // 3 functions
+  put([0x04]); // 4 functions
 
   // === Function 0: compress4x ===
   // Reserve 5 bytes for function size
@@ -154,6 +164,97 @@ function generateWasmBytes(): Uint8Array {
 
   const funcBodyStart = code.length;
 
+  // Generate the compress4x function body (8 output words per lane)
+  const compress4xBody = generateCompress4xBody(false);
+  put(compress4xBody);
+
+  // Fill in function 0 size using padded LEB128
+  const funcBodySize = code.length - funcBodyStart;
+  const funcSizeBytes = toLebU32Padded5(funcBodySize);
+  for (let i = 0; i < 5; i++) {
+    code[funcSizeOffset + i] = funcSizeBytes[i];
+  }
+
+  // === Function 1: compressChunks4x ===
+  // Reserve 5 bytes for function size
+  const func1SizeOffset = code.length;
+  put([0x00, 0x00, 0x00, 0x00, 0x00]);
+
+  const func1BodyStart = code.length;
+
+  // Generate the compressChunks4x function body
+  const compressChunksBody = generateCompressChunks4xBody();
+  put(compressChunksBody);
+
+  // Fill in function 1 size using padded LEB128
+  const func1BodySize = code.length - func1BodyStart;
+  const func1SizeBytes = toLebU32Padded5(func1BodySize);
+  for (let i = 0; i < 5; i++) {
+    code[func1SizeOffset + i] = func1SizeBytes[i];
+  }
+
+  // === Function 2: compressParent ===
+  // Reserve 5 bytes for function size
+  const func2SizeOffset = code.length;
+  put([0x00, 0x00, 0x00, 0x00, 0x00]);
+
+  const func2BodyStart = code.length;
+
+  // Generate the compressParent function body
+  const compressParentBody = generateCompressParentBody();
+  put(compressParentBody);
+
+  // Fill in function 2 size using padded LEB128
+  const func2BodySize = code.length - func2BodyStart;
+  const func2SizeBytes = toLebU32Padded5(func2BodySize);
+  for (let i = 0; i < 5; i++) {
+    code[func2SizeOffset + i] = func2SizeBytes[i];
+  }
+
+  // === Function 3: compressXof4x ===
+  // Reserve 5 bytes for function size
+  const func3SizeOffset = code.length;
+  put([0x00, 0x00, 0x00, 0x00, 0x00]);
+
+  const func3BodyStart = code.length;
+
+  // Generate the compressXof4x function body (16 output words per lane)
+  const compressXofBody = generateCompress4xBody(true);
+  put(compressXofBody);
+
+  // Fill in function 3 size using padded LEB128
+  const func3BodySize = code.length - func3BodyStart;
+  const func3SizeBytes = toLebU32Padded5(func3BodySize);
+  for (let i = 0; i < 5; i++) {
+    code[func3SizeOffset + i] = func3SizeBytes[i];
+  }
+
+  // Fill in section size using padded LEB128
+  const sectionSize = code.length - sectionSizeOffset - 5;
+  const sectionSizeBytes = toLebU32Padded5(sectionSize);
+  for (let i = 0; i < 5; i++) {
+    code[sectionSizeOffset + i] = sectionSizeBytes[i];
+  }
+
+  return new Uint8Array(code);
+}
+
+/**
+ * Generate compress4x / compressXof4x WASM function body.
+ * Compresses one block for each of 4 lanes with per-lane CVs, counters,
+ * block lengths and flags.
+ *
+ * @param fullOutput - If true, store all 16 output words per lane to
+ *                     XOF_OUTPUT (root output blocks); otherwise store the
+ *                     8-word chaining values to OUTPUT.
+ */
+function generateCompress4xBody(fullOutput: boolean): number[] {
+  const code: number[] = [];
+
+  function put(bytes: number[]): void {
+    code.push(...bytes);
+  }
+
   // Local declarations: 32 v128 locals
   // Variables $0-$15: message words (m0-m15)
   // Variables $16-$31: state words (s0-s15)
@@ -321,70 +422,43 @@ function generateWasmBytes(): Uint8Array {
 
   // ===== Final XOR and store output =====
 
-  // out[i] = s[i] ^ s[i+8] for i in 0..7
-  // Store at offset 640-767
-  for (let i = 0; i < 8; i++) {
-    put([0x41, ...toLebU32Min2(640 + i * 16)]); // i32.const offset
-    put([0x20, 16 + i]); // local.get s[i]
-    put([0x20, 24 + i]); // local.get s[i+8]
-    put([0xfd, 0x51]); // v128.xor
-    put([0xfd, 0x0b, 0x02, 0x00]); // v128.store align=4
+  if (!fullOutput) {
+    // out[i] = s[i] ^ s[i+8] for i in 0..7
+    // Store at offset 640-767
+    for (let i = 0; i < 8; i++) {
+      put([0x41, ...toLebU32Min2(640 + i * 16)]); // i32.const offset
+      put([0x20, 16 + i]); // local.get s[i]
+      put([0x20, 24 + i]); // local.get s[i+8]
+      put([0xfd, 0x51]); // v128.xor
+      put([0xfd, 0x0b, 0x02, 0x00]); // v128.store align=4
+    }
+  } else {
+    const XOF_OUTPUT = SIMD_MEMORY.XOF_OUTPUT;
+
+    // out[i] = s[i] ^ s[i+8] for i in 0..7
+    for (let i = 0; i < 8; i++) {
+      put([0x41, ...toLebU32Min2(XOF_OUTPUT + i * 16)]); // i32.const offset
+      put([0x20, 16 + i]); // local.get s[i]
+      put([0x20, 24 + i]); // local.get s[i+8]
+      put([0xfd, 0x51]); // v128.xor
+      put([0xfd, 0x0b, 0x02, 0x00]); // v128.store align=4
+    }
+
+    // out[i+8] = s[i+8] ^ cv[i] for i in 0..7 (cv reloaded from offset 512-639)
+    for (let i = 0; i < 8; i++) {
+      put([0x41, ...toLebU32Min2(XOF_OUTPUT + (8 + i) * 16)]); // i32.const offset
+      put([0x20, 24 + i]); // local.get s[i+8]
+      put([0x41, ...toLebU32Min2(512 + i * 16)]); // i32.const offset
+      put([0xfd, 0x00, 0x02, 0x00]); // v128.load cv[i]
+      put([0xfd, 0x51]); // v128.xor
+      put([0xfd, 0x0b, 0x02, 0x00]); // v128.store align=4
+    }
   }
 
   // End of function
   put([0x0b]); // end
 
-  // Fill in function 0 size using padded LEB128
-  const funcBodySize = code.length - funcBodyStart;
-  const funcSizeBytes = toLebU32Padded5(funcBodySize);
-  for (let i = 0; i < 5; i++) {
-    code[funcSizeOffset + i] = funcSizeBytes[i];
-  }
-
-  // === Function 1: compressChunks4x ===
-  // Reserve 5 bytes for function size
-  const func1SizeOffset = code.length;
-  put([0x00, 0x00, 0x00, 0x00, 0x00]);
-
-  const func1BodyStart = code.length;
-
-  // Generate the compressChunks4x function body
-  const compressChunksBody = generateCompressChunks4xBody();
-  put(compressChunksBody);
-
-  // Fill in function 1 size using padded LEB128
-  const func1BodySize = code.length - func1BodyStart;
-  const func1SizeBytes = toLebU32Padded5(func1BodySize);
-  for (let i = 0; i < 5; i++) {
-    code[func1SizeOffset + i] = func1SizeBytes[i];
-  }
-
-  // === Function 2: compressParent ===
-  // Reserve 5 bytes for function size
-  const func2SizeOffset = code.length;
-  put([0x00, 0x00, 0x00, 0x00, 0x00]);
-
-  const func2BodyStart = code.length;
-
-  // Generate the compressParent function body
-  const compressParentBody = generateCompressParentBody();
-  put(compressParentBody);
-
-  // Fill in function 2 size using padded LEB128
-  const func2BodySize = code.length - func2BodyStart;
-  const func2SizeBytes = toLebU32Padded5(func2BodySize);
-  for (let i = 0; i < 5; i++) {
-    code[func2SizeOffset + i] = func2SizeBytes[i];
-  }
-
-  // Fill in section size using padded LEB128
-  const sectionSize = code.length - sectionSizeOffset - 5;
-  const sectionSizeBytes = toLebU32Padded5(sectionSize);
-  for (let i = 0; i < 5; i++) {
-    code[sectionSizeOffset + i] = sectionSizeBytes[i];
-  }
-
-  return new Uint8Array(code);
+  return code;
 }
 
 /**
@@ -632,7 +706,8 @@ function generateCompressChunks4xBody(): number[] {
  * Generate compressParent WASM function body.
  * Performs a single parent node compression using scalar i32 operations.
  * Reads 16 words from PARENT_BLOCK, writes 8 words to CHUNK_CV.
- * Uses IV, counter=0, blockLen=64, flags=PARENT(4).
+ * Reads key words from PARENT_KEY and flags from PARENT_FLAGS, so keyed and
+ * derive_key modes share the kernel. Uses counter=0, blockLen=64.
  */
 function generateCompressParentBody(): number[] {
   const code: number[] = [];
@@ -651,11 +726,11 @@ function generateCompressParentBody(): number[] {
 
   const PARENT_BLOCK_OFFSET = SIMD_MEMORY.PARENT_BLOCK;
   const CHUNK_CV_OFFSET = SIMD_MEMORY.CHUNK_CV;
+  const PARENT_KEY_OFFSET = SIMD_MEMORY.PARENT_KEY;
+  const PARENT_FLAGS_OFFSET = SIMD_MEMORY.PARENT_FLAGS;
 
-  // BLAKE3 IV
-  const IV = [
-    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
-  ];
+  // BLAKE3 IV (first 4 words, for s8-s11)
+  const IV = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a];
 
   // Load message words from PARENT_BLOCK (16 words at offset 7264)
   for (let i = 0; i < 16; i++) {
@@ -664,9 +739,10 @@ function generateCompressParentBody(): number[] {
     put([0x21, i]); // local.set $i (m0-m15)
   }
 
-  // Initialize state s0-s7 = IV[0-7]
+  // Initialize state s0-s7 = key words (from PARENT_KEY)
   for (let i = 0; i < 8; i++) {
-    put([0x41, ...toSignedLeb128_i32(IV[i])]); // i32.const IV[i]
+    put([0x41, ...toLebU32Min2(PARENT_KEY_OFFSET + i * 4)]); // i32.const offset
+    put([0x28, 0x02, 0x00]); // i32.load align=4 offset=0
     put([0x21, 16 + i]); // local.set $(16+i) -> s0-s7
   }
 
@@ -690,8 +766,9 @@ function generateCompressParentBody(): number[] {
   put([0x41, 0xc0, 0x00]); // i32.const 64
   put([0x21, 30]); // local.set $30 -> s14
 
-  // s15 = flags = PARENT = 4
-  put([0x41, 0x04]); // i32.const 4
+  // s15 = flags (from PARENT_FLAGS, already includes PARENT)
+  put([0x41, ...toLebU32Min2(PARENT_FLAGS_OFFSET)]); // i32.const offset
+  put([0x28, 0x02, 0x00]); // i32.load align=4 offset=0
   put([0x21, 31]); // local.set $31 -> s15
 
   // Helper to generate scalar G function (inlined)
@@ -803,11 +880,11 @@ function generateCompressParentBody(): number[] {
 }
 
 // Cached WASM instance
-let wasmInstance: WebAssembly.Instance | null = null;
 let wasmMemory: WebAssembly.Memory | null = null;
 let wasmCompress4x: (() => void) | null = null;
 let wasmCompressChunks4x: (() => void) | null = null;
 let wasmCompressParent: (() => void) | null = null;
+let wasmCompressXof4x: (() => void) | null = null;
 let wasmMemoryView: Uint8Array | null = null;
 let wasmMemoryView32: Uint32Array | null = null;
 
@@ -888,6 +965,8 @@ function setupArenaViews(): void {
   arenaParentBlock = new Uint32Array(buffer, SIMD_MEMORY.PARENT_BLOCK, 16); // 16 words
   arenaChunkCv = new Uint32Array(buffer, SIMD_MEMORY.CHUNK_CV, 8); // 8 words
   arenaTempCvs = new Uint32Array(buffer, SIMD_MEMORY.TEMP_CVS, 32); // 4 × 8 words
+  arenaParentKey = new Uint32Array(buffer, SIMD_MEMORY.PARENT_KEY, 8); // 8 words
+  arenaParentFlags = new Uint32Array(buffer, SIMD_MEMORY.PARENT_FLAGS, 1); // 1 word
 
   // Batch mode views
   // 16 positions × 16 v128 words = 16 × 64 u32 words = 1024 words per position? No...
@@ -900,46 +979,111 @@ function setupArenaViews(): void {
 }
 
 /**
- * Initialize the WASM SIMD module synchronously.
- * Call this once before using compress4x.
+ * SIMD initialization status:
+ * - "uninitialized": no initialization attempted yet
+ * - "pending": async initialization (initSimdAsync) in progress
+ * - "ready": kernels compiled and instantiated
+ * - "unavailable": WASM SIMD unsupported or initialization failed
  */
+export type SimdStatus = "uninitialized" | "pending" | "ready" | "unavailable";
+
+let simdStatus: SimdStatus = "uninitialized";
+let simdInitPromise: Promise<boolean> | null = null;
+
 // Cache generated WASM bytes to avoid regenerating on each init
 let cachedWasmBytes: Uint8Array | null = null;
 
+function getWasmBytes(): Uint8Array {
+  const wasmBytes = cachedWasmBytes || generateWasmBytes();
+  cachedWasmBytes = wasmBytes;
+  return wasmBytes;
+}
+
+/**
+ * Bind kernel exports and arena views of a freshly created instance.
+ */
+function finishInit(instance: WebAssembly.Instance, memory: WebAssembly.Memory): void {
+  wasmMemory = memory;
+  wasmCompress4x = instance.exports.compress4x as () => void;
+  wasmCompressChunks4x = instance.exports.compressChunks4x as () => void;
+  wasmCompressParent = instance.exports.compressParent as () => void;
+  wasmCompressXof4x = instance.exports.compressXof4x as () => void;
+  wasmMemoryView = new Uint8Array(memory.buffer);
+  wasmMemoryView32 = new Uint32Array(memory.buffer);
+
+  // Set up arena views for Merkle tree operations
+  setupArenaViews();
+  simdStatus = "ready";
+}
+
+/**
+ * Initialize the WASM SIMD module synchronously.
+ * Call this once before using compress4x.
+ *
+ * Returns false without blocking while async initialization is pending.
+ */
 export function initSimdSync(): boolean {
-  if (wasmInstance) return true;
+  if (simdStatus === "ready") return true;
+  if (simdStatus !== "uninitialized") return false;
 
   if (!isSimdSupported()) {
+    simdStatus = "unavailable";
     return false;
   }
 
   try {
-    const wasmBytes = cachedWasmBytes || generateWasmBytes();
-    cachedWasmBytes = wasmBytes;
-    wasmMemory = new WebAssembly.Memory({ initial: 1 });
-
-    const importObject = {
-      js: { mem: wasmMemory },
-    };
-
-    const module = new WebAssembly.Module(wasmBytes.buffer as ArrayBuffer);
-    wasmInstance = new WebAssembly.Instance(module, importObject);
-    wasmCompress4x = wasmInstance.exports.compress4x as () => void;
-    wasmCompressChunks4x = wasmInstance.exports.compressChunks4x as () => void;
-    wasmCompressParent = wasmInstance.exports.compressParent as () => void;
-    wasmMemoryView = new Uint8Array(wasmMemory.buffer);
-    wasmMemoryView32 = new Uint32Array(wasmMemory.buffer);
-
-    // Set up arena views for Merkle tree operations
-    setupArenaViews();
-
+    const memory = new WebAssembly.Memory({ initial: 1 });
+    const module = new WebAssembly.Module(getWasmBytes().buffer as ArrayBuffer);
+    finishInit(new WebAssembly.Instance(module, { js: { mem: memory } }), memory);
     return true;
   } catch (e) {
     console.warn("Failed to initialize WASM SIMD:", e);
+    simdStatus = "unavailable";
     return false;
   }
 }
 
+/**
+ * Initialize the WASM SIMD module asynchronously with WebAssembly.compile()
+ * and WebAssembly.instantiate(), which browsers allow on the main thread for
+ * modules of any size. Concurrent calls share one initialization.
+ *
+ * @returns Promise resolving to true once SIMD is ready, false if unavailable
+ */
+export function initSimdAsync(): Promise<boolean> {
+  if (simdStatus === "ready") return Promise.resolve(true);
+  if (simdInitPromise) return simdInitPromise;
+
+  if (!isSimdSupported()) {
+    simdStatus = "unavailable";
+    return Promise.resolve(false);
+  }
+
+  simdStatus = "pending";
+  simdInitPromise = (async () => {
+    try {
+      const memory = new WebAssembly.Memory({ initial: 1 });
+      const module = await WebAssembly.compile(getWasmBytes().buffer as ArrayBuffer);
+      finishInit(await WebAssembly.instantiate(module, { js: { mem: memory } }), memory);
+      return true;
+    } catch (e) {
+      console.warn("Failed to initialize WASM SIMD:", e);
+      simdStatus = "unavailable";
+      return false;
+    } finally {
+      simdInitPromise = null;
+    }
+  })();
+  return simdInitPromise;
+}
+
+/**
+ * Get the current SIMD initialization status.
+ */
+export function getSimdStatus(): SimdStatus {
+  return simdStatus;
+}
+
 /**
  * Memory offsets for SIMD data layout
  *
@@ -972,7 +1116,12 @@ export const SIMD_MEMORY = {
   PARENT_BLOCK: 7264, // 16 words × 4 bytes = 64 bytes, ends at 7328
   CHUNK_CV: 7328, // 8 words × 4 bytes = 32 bytes, ends at 7360
   TEMP_CVS: 7360, // 4 × 8 words × 4 bytes = 128 bytes, ends at 7488
-  // Total arena usage: ~7488 bytes (fits comfortably in 64KB page)
+  PARENT_KEY: 7488, // 8 words × 4 bytes = 32 bytes (compressParent key words), ends at 7520
+  PARENT_FLAGS: 7520, // 1 word (compressParent flags, including PARENT), padded to 16 bytes, ends at 7536
+
+  // SIMD compressXof4x output: 16 v128 values (one per output word) = 256 bytes
+  XOF_OUTPUT: 7536, // 16 words × 4 lanes × 4 bytes = 256 bytes (transposed), ends at 7792
+  // Total arena usage: ~7792 bytes (fits comfortably in 64KB page)
 } as const;
 
 // Arena views - created once when SIMD initializes
@@ -980,6 +1129,8 @@ let arenaCvStack: Uint32Array | null = null;
 let arenaParentBlock: Uint32Array | null = null;
 let arenaChunkCv: Uint32Array | null = null;
 let arenaTempCvs: Uint32Array | null = null;
+let arenaParentKey: Uint32Array | null = null;
+let arenaParentFlags: Uint32Array | null = null;
 
 // Batch mode arena views
 let arenaBatchBlockWords: Uint32Array | null = null;
@@ -1005,13 +1156,25 @@ export function getArenaBuffers(): {
   parentBlock: Uint32Array;
   chunkCv: Uint32Array;
   tempCvs: Uint32Array;
+  parentKey: Uint32Array;
+  parentFlags: Uint32Array;
 } | null {
-  if (!arenaCvStack || !arenaParentBlock || !arenaChunkCv || !arenaTempCvs) return null;
+  if (
+    !arenaCvStack ||
+    !arenaParentBlock ||
+    !arenaChunkCv ||
+    !arenaTempCvs ||
+    !arenaParentKey ||
+    !arenaParentFlags
+  )
+    return null;
   return {
     cvStack: arenaCvStack,
     parentBlock: arenaParentBlock,
     chunkCv: arenaChunkCv,
     tempCvs: arenaTempCvs,
+    parentKey: arenaParentKey,
+    parentFlags: arenaParentFlags,
   };
 }
 
@@ -1069,7 +1232,8 @@ export function runCompressChunks4x(): void {
 /**
  * Run the compressParent function.
  * Compresses a parent node: reads 16 words from PARENT_BLOCK, writes 8 words to CHUNK_CV.
- * Data must already be set up in arena buffers (PARENT_BLOCK at offset 7264).
+ * Data must already be set up in arena buffers (PARENT_BLOCK at offset 7264,
+ * PARENT_KEY at 7488 and PARENT_FLAGS at 7520).
  * Output is written to CHUNK_CV at offset 7328.
  */
 export function runCompressParent(): void {
@@ -1079,6 +1243,19 @@ export function runCompressParent(): void {
   wasmCompressParent();
 }
 
+/**
+ * Run the compressXof4x function.
+ * Computes 4 full 64-byte root output blocks, one per lane, using the same
+ * input layout as compress4x (offsets 0-831). Output is written transposed
+ * to XOF_OUTPUT at offset 7536 (16 words × 4 lanes).
+ */
+export function runCompressXof4x(): void {
+  if (!wasmCompressXof4x) {
+    throw new Error("WASM SIMD not initialized. Call initSimdSync() first.");
+  }
+  wasmCompressXof4x();
+}
+
 /**
  * Check if SIMD is initialized and ready.
  */
@@ -0,0 +1,93 @@
+/**
+ * WHATWG streams integration - for browsers, Deno and Node.js
+ *
+ * Hash fetch() response bodies, File.stream() and other ReadableStreams
+ * without manual reader loops.
+ */
+
+import { hasherForOptions, type HashModeOptions } from "./hash-options.js";
+
+/**
+ * TransformStream that passes bytes through unchanged while hashing them.
+ * The digest resolves when the writable side closes, and rejects if the
+ * stream errors, is aborted or is cancelled.
+ *
+ * @example
+ * ```typescript
+ * const hashing = new Blake3Stream();
+ * const response = await fetch(url);
+ * await response.body!.pipeThrough(hashing).pipeTo(fileWritable);
+ * const digest = await hashing.digest;
+ * ```
+ */
+export class Blake3Stream extends TransformStream<Uint8Array, Uint8Array> {
+  /** The digest of all bytes, once the stream has been flushed; rejects if the stream fails */
+  readonly digest: Promise<Uint8Array>;
+
+  /**
+   * @param options - Hashing mode and output length
+   */
+  constructor(options: HashModeOptions = {}) {
+    const { hasher, outputLength } = hasherForOptions(options);
+    let resolveDigest!: (digest: Uint8Array) => void;
+    let rejectDigest!: (reason: unknown) => void;
+    const digest = new Promise<Uint8Array>((resolve, reject) => {
+      resolveDigest = resolve;
+      rejectDigest = reject;
+    });
+    // A failed stream is reported through the stream; awaiting the digest is optional
+    digest.catch(() => {});
+
+    // The DOM lib's Transformer type predates the cancel() hook
+    const transformer: Transformer<Uint8Array, Uint8Array> & { cancel(reason: unknown): void } = {
+      transform(chunk, controller) {
+        try {
+          hasher.update(chunk);
+        } catch (error) {
+          rejectDigest(error);
+          throw error;
+        }
+        controller.enqueue(chunk);
+      },
+      flush() {
+        resolveDigest(hasher.finalize(outputLength));
+      },
+      // Called when the writable side is aborted or the readable side cancelled
+      cancel(reason) {
+        rejectDigest(reason);
+      },
+    };
+    super(transformer);
+    this.digest = digest;
+  }
+}
+
+/**
+ * Read a stream to the end and hash its bytes.
+ *
+ * @param readable - Stream of bytes (e.g. `response.body` or `file.stream()`)
+ * @param options - Hashing mode and output length
+ * @returns The digest
+ *
+ * @example
+ * ```typescript
+ * const digest = await digestStream(file.stream());
+ * ```
+ */
+export async function digestStream(
+  readable: ReadableStream<Uint8Array>,
+  options: HashModeOptions = {},
+): Promise<Uint8Array> {
+  const { hasher, outputLength } = hasherForOptions(options);
+  const reader = readable.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      hasher.update(value);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  return hasher.finalize(outputLength);
+}
@@ -0,0 +1,207 @@
+/**
+ * Tests for the b3sum-jit command-line tool.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+
+import { version } from "../package.json";
+import { b3sum } from "../src/b3sum.js";
+import { hash, keyedHash, deriveKey, createHasher, toHex } from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+interface RunResult {
+  code: number;
+  stdout: string;
+  stdoutBytes: Uint8Array;
+  stderr: string;
+}
+
+async function run(args: string[], stdin: Uint8Array[] = []): Promise<RunResult> {
+  const out: Uint8Array[] = [];
+  let stderr = "";
+  const code = await b3sum(args, {
+    stdin: (async function* () {
+      yield* stdin;
+    })(),
+    stdout: (data) => out.push(typeof data === "string" ? new TextEncoder().encode(data) : data),
+    stderr: (text) => {
+      stderr += text;
+    },
+  });
+  const stdoutBytes = new Uint8Array(Buffer.concat(out));
+  return { code, stdout: new TextDecoder().decode(stdoutBytes), stdoutBytes, stderr };
+}
+
+describe("b3sum-jit", () => {
+  let dir: string;
+  let small: string;
+  let large: string;
+  const key = generateInput(32).map((b) => b ^ 0x5a);
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "blake3-jit-"));
+    small = join(dir, "small.bin");
+    large = join(dir, "large.bin");
+    writeFileSync(small, generateInput(1000));
+    writeFileSync(large, generateInput(100_000));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("prints one line per file", async () => {
+    const { code, stdout, stderr } = await run([small, large]);
+    expect(code).toBe(0);
+    expect(stderr).toBe("");
+    expect(stdout).toBe(
+      `${toHex(hash(generateInput(1000)))}  ${small}\n` +
+        `${toHex(hash(generateInput(100_000)))}  ${large}\n`,
+    );
+  });
+
+  it("hashes stdin with no arguments or -", async () => {
+    const chunks = [generateInput(3000), generateInput(5000)];
+    const expected = toHex(createHasher().update(chunks[0]).update(chunks[1]).finalize());
+    expect((await run([], chunks)).stdout).toBe(`${expected}  -\n`);
+    expect((await run(["-"], chunks)).stdout).toBe(`${expected}  -\n`);
+  });
+
+  it("supports --length, --no-names, --tag and --raw", async () => {
+    const input = generateInput(1000);
+    const long = createHasher().update(input).finalize(100);
+
+    expect((await run(["--length", "100", "--no-names", small])).stdout).toBe(`${toHex(long)}\n`);
+    expect((await run(["-l", "16", small])).stdout).toBe(
+      `${toHex(long.subarray(0, 16))}  ${small}\n`,
+    );
+    expect((await run(["--tag", small])).stdout).toBe(
+      `BLAKE3 (${small}) = ${toHex(hash(input))}\n`,
+    );
+    expect((await run(["--raw", "-l", "100", small])).stdoutBytes).toEqual(long);
+  });
+
+  it("supports --keyed with the key on stdin", async () => {
+    const { code, stdout } = await run(["--keyed", small], [key]);
+    expect(code).toBe(0);
+    expect(stdout).toBe(`${toHex(keyedHash(key, generateInput(1000)))}  ${small}\n`);
+
+    const short = await run(["--keyed", small], [key.subarray(0, 31)]);
+    expect(short.code).toBe(1);
+    expect(short.stderr).toContain("expected 32");
+  });
+
+  it("supports --derive-key", async () => {
+    const context = "blake3-jit 2024-01-01 b3sum test";
+    const { stdout } = await run(["--derive-key", context, "--no-names", small]);
+    expect(stdout).toBe(`${toHex(deriveKey(context, generateInput(1000)))}\n`);
+  });
+
+  it("escapes filenames with backslashes and newlines", async () => {
+    const name = join(dir, "odd\\name\nfile");
+    writeFileSync(name, generateInput(10));
+    const escaped = name.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+    const digest = toHex(hash(generateInput(10)));
+
+    expect((await run([name])).stdout).toBe(`\\${digest}  ${escaped}\n`);
+    expect((await run(["--tag", name])).stdout).toBe(`\\BLAKE3 (${escaped}) = ${digest}\n`);
+
+    const sums = join(dir, "odd.b3");
+    writeFileSync(sums, (await run([name])).stdout);
+    expect(await run(["--check", sums])).toMatchObject({
+      code: 0,
+      stdout: `\\${escaped}: OK\n`,
+    });
+  });
+
+  it("reports missing files and keeps going", async () => {
+    const missing = join(dir, "missing.bin");
+    const { code, stdout, stderr } = await run([missing, small]);
+    expect(code).toBe(1);
+    expect(stderr).toContain(`b3sum-jit: ${missing}: `);
+    expect(stdout).toBe(`${toHex(hash(generateInput(1000)))}  ${small}\n`);
+  });
+
+  describe("--check", () => {
+    it("verifies its own output", async () => {
+      const sums = join(dir, "ok.b3");
+      writeFileSync(sums, (await run([small, large, "-l", "48"])).stdout);
+
+      expect(await run(["--check", sums])).toEqual(
+        expect.objectContaining({ code: 0, stdout: `${small}: OK\n${large}: OK\n`, stderr: "" }),
+      );
+      expect(await run(["-c", "--quiet", sums])).toEqual(
+        expect.objectContaining({ code: 0, stdout: "" }),
+      );
+    });
+
+    it("verifies --tag output", async () => {
+      const sums = join(dir, "tag.b3");
+      writeFileSync(sums, (await run(["--tag", small])).stdout);
+      expect(await run(["--check", sums])).toMatchObject({ code: 0, stdout: `${small}: OK\n` });
+    });
+
+    it("reads the checksum file from stdin", async () => {
+      const listing = (await run([small])).stdout;
+      const { code, stdout } = await run(["--check"], [new TextEncoder().encode(listing)]);
+      expect(code).toBe(0);
+      expect(stdout).toBe(`${small}: OK\n`);
+    });
+
+    it("prints FAILED lines and exits with 1", async () => {
+      const missing = join(dir, "gone.bin");
+      const wrong = toHex(hash(generateInput(999)));
+      const sums = join(dir, "bad.b3");
+      writeFileSync(
+        sums,
+        `${wrong}  ${small}\n${toHex(hash(generateInput(100_000)))}  ${large}\n${wrong}  ${missing}\n`,
+      );
+
+      const { code, stdout, stderr } = await run(["--check", "--quiet", sums]);
+      expect(code).toBe(1);
+      const lines = stdout.split("\n");
+      expect(lines[0]).toBe(`${small}: FAILED`);
+      expect(lines[1]).toMatch(
+        new RegExp(`^${missing.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}: FAILED \\(`),
+      );
+      expect(lines.length).toBe(3);
+      expect(stderr).toContain("WARNING: 2 computed checksums did NOT match");
+    });
+
+    it("rejects malformed lines", async () => {
+      const sums = join(dir, "malformed.b3");
+      writeFileSync(sums, "not a checksum line\n");
+      const { code, stderr } = await run(["--check", sums]);
+      expect(code).toBe(1);
+      expect(stderr).toContain(`${sums}:1: Invalid checksum line`);
+    });
+  });
+
+  describe("usage errors", () => {
+    for (const args of [
+      ["--check", "--tag", "x"],
+      ["--raw", "a", "b"],
+      ["--keyed"],
+      ["--keyed", "--derive-key", "ctx", "a"],
+      ["--length", "abc", "a"],
+      ["--quiet", "a"],
+      ["--bogus"],
+    ]) {
+      it(`rejects ${args.join(" ")}`, async () => {
+        const { code, stdout, stderr } = await run(args);
+        expect(code).toBe(1);
+        expect(stdout).toBe("");
+        expect(stderr).toMatch(/^b3sum-jit: .*\n\nFor more information, try '--help'.\n$/);
+      });
+    }
+
+    it("prints help and version", async () => {
+      expect((await run(["--help"])).stdout).toContain("Usage: b3sum-jit");
+      expect((await run(["-V"])).stdout).toBe(`b3sum-jit ${version}\n`);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for the Bao decoder: incremental verification of combined and
+ * outboard encodings, and rejection of corrupted input.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { hash, bao, toHex } from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+// Push `encoding` in pieces of `pieceLen` bytes, collecting verified output
+function decodeInPieces(decoder: bao.Decoder, encoding: Uint8Array, pieceLen: number): Uint8Array {
+  const output: number[] = [];
+  for (let offset = 0; offset < encoding.length; offset += pieceLen) {
+    decoder.push(encoding.subarray(offset, offset + pieceLen));
+    output.push(...decoder.read());
+  }
+  output.push(...decoder.finish());
+  return new Uint8Array(output);
+}
+
+const LENGTHS = [0, 1, 1024, 1025, 2048, 3073, 4096, 8193, 31744, 102400];
+
+describe("Bao decoding", () => {
+  for (const length of LENGTHS) {
+    it(`decodes ${length} bytes`, () => {
+      const input = generateInput(length);
+      const { encoding, hash: rootHash } = bao.encode(input);
+      expect(toHex(bao.decode(encoding, rootHash))).toBe(toHex(input));
+    });
+
+    it(`decodes ${length} bytes outboard`, () => {
+      const input = generateInput(length);
+      const { encoding, hash: rootHash } = bao.encodeOutboard(input);
+      expect(toHex(bao.decodeOutboard(input, encoding, rootHash))).toBe(toHex(input));
+    });
+  }
+
+  for (const pieceLen of [1, 7, 64, 1000, 1500]) {
+    it(`decodes pushed in ${pieceLen}-byte pieces`, () => {
+      const input = generateInput(9000);
+      const { encoding, hash: rootHash } = bao.encode(input);
+      const decoder = new bao.Decoder(rootHash);
+      expect(toHex(decodeInPieces(decoder, encoding, pieceLen))).toBe(toHex(input));
+    });
+
+    it(`decodes outboard content pushed in ${pieceLen}-byte pieces`, () => {
+      const input = generateInput(9000);
+      const { encoding, hash: rootHash } = bao.encodeOutboard(input);
+      const decoder = new bao.Decoder(rootHash, encoding);
+      expect(toHex(decodeInPieces(decoder, input, pieceLen))).toBe(toHex(input));
+    });
+  }
+
+  it("releases each chunk as soon as it is verified", () => {
+    const input = generateInput(4096);
+    const { encoding, hash: rootHash } = bao.encode(input);
+    const decoder = new bao.Decoder(rootHash);
+
+    // Header, root node, left node and the first chunk
+    decoder.push(encoding.subarray(0, 8 + 64 + 64 + 1024 - 1));
+    expect(decoder.contentLength).toBe(4096);
+    expect(decoder.read().length).toBe(0);
+    decoder.push(encoding.subarray(8 + 64 + 64 + 1024 - 1, 8 + 64 + 64 + 1024));
+    expect(toHex(decoder.read())).toBe(toHex(input.subarray(0, 1024)));
+    expect(decoder.done).toBe(false);
+  });
+
+  it("reports the offset of a corrupted chunk", () => {
+    const input = generateInput(5000);
+    const { encoding, hash: rootHash } = bao.encode(input);
+    // The last chunk (chunk 4) starts at content offset 4096
+    const corrupted = encoding.slice();
+    corrupted[encoding.length - 1] ^= 1;
+
+    const decoder = new bao.Decoder(rootHash);
+    let error: unknown;
+    try {
+      decoder.push(corrupted);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(bao.BaoIntegrityError);
+    expect((error as bao.BaoIntegrityError).offset).toBe(4096);
+    // Everything before the bad chunk was verified
+    expect(toHex(decoder.read())).toBe(toHex(input.subarray(0, 4096)));
+  });
+
+  it("rejects a corrupted parent node", () => {
+    const input = generateInput(5000);
+    const { encoding, hash: rootHash } = bao.encode(input);
+    const corrupted = encoding.slice();
+    corrupted[8 + 64 + 3] ^= 0x80; // inside the root's left child node
+
+    expect(() => bao.decode(corrupted, rootHash)).toThrow(bao.BaoIntegrityError);
+  });
+
+  it("rejects the wrong root hash", () => {
+    const input = generateInput(2000);
+    const { encoding } = bao.encode(input);
+    const wrongHash = hash(generateInput(1999));
+    expect(() => bao.decode(encoding, wrongHash)).toThrow(bao.BaoIntegrityError);
+    expect(() => bao.decode(bao.encode(new Uint8Array(0)).encoding, wrongHash)).toThrow(
+      bao.BaoIntegrityError,
+    );
+  });
+
+  it("rejects a lying length header", () => {
+    const input = generateInput(3000);
+    const { encoding, hash: rootHash } = bao.encode(input);
+    const corrupted = encoding.slice();
+    corrupted[0] = (3000 - 1) & 0xff;
+    expect(() => bao.decode(corrupted.subarray(0, corrupted.length - 1), rootHash)).toThrow(
+      bao.BaoIntegrityError,
+    );
+  });
+
+  it("rejects corrupted outboard content", () => {
+    const input = generateInput(10000);
+    const { encoding, hash: rootHash } = bao.encodeOutboard(input);
+    const corrupted = input.slice();
+    corrupted[7000] ^= 1;
+    expect(() => bao.decodeOutboard(corrupted, encoding, rootHash)).toThrow(bao.BaoIntegrityError);
+  });
+
+  it("rejects truncated and oversized input", () => {
+    const input = generateInput(3000);
+    const { encoding, hash: rootHash } = bao.encode(input);
+    expect(() => bao.decode(encoding.subarray(0, encoding.length - 1), rootHash)).toThrow(
+      /ended early/,
+    );
+    expect(() => bao.decode(encoding.subarray(0, 4), rootHash)).toThrow(/length header/);
+
+    const extended = new Uint8Array(encoding.length + 1);
+    extended.set(encoding);
+    expect(() => bao.decode(extended, rootHash)).toThrow(/after the end/);
+
+    const { encoding: outboard } = bao.encodeOutboard(input);
+    expect(() => new bao.Decoder(rootHash, outboard.subarray(0, outboard.length - 1))).toThrow(
+      /Outboard encoding is/,
+    );
+  });
+
+  it("rejects a root hash of the wrong length", () => {
+    expect(() => new bao.Decoder(new Uint8Array(31))).toThrow(/32 bytes/);
+  });
+});
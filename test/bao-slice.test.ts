@@ -0,0 +1,108 @@
+/**
+ * Tests for Bao slices: extracting the nodes proving a byte range and
+ * verifying them without the rest of the encoding.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { bao, toHex } from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+const LENGTHS = [0, 1, 1024, 1025, 4096, 5000, 12345];
+const RANGES: [number, number][] = [
+  [0, 0],
+  [0, 1],
+  [0, 1024],
+  [1000, 100],
+  [1024, 1024],
+  [2047, 2],
+  [3000, 5000],
+  [4096, 1],
+  [12000, 1000],
+  [20000, 10],
+];
+
+describe("Bao slices", () => {
+  for (const length of LENGTHS) {
+    const input = generateInput(length);
+    const { encoding, hash: rootHash } = bao.encode(input);
+    const { encoding: outboard } = bao.encodeOutboard(input);
+
+    for (const [start, len] of RANGES) {
+      it(`slices ${len} bytes at ${start} of ${length}`, () => {
+        const slice = bao.extractSlice(encoding, start, len);
+        expect(toHex(bao.extractSliceOutboard(input, outboard, start, len))).toBe(toHex(slice));
+        expect(toHex(bao.decodeSlice(slice, rootHash, start, len))).toBe(
+          toHex(input.subarray(start, start + len)),
+        );
+      });
+    }
+  }
+
+  it("is the whole encoding for the whole range", () => {
+    const input = generateInput(9000);
+    const { encoding } = bao.encode(input);
+    expect(toHex(bao.extractSlice(encoding, 0, 9000))).toBe(toHex(encoding));
+  });
+
+  it("contains only the path to the range", () => {
+    const input = generateInput(1024 * 1024);
+    const { encoding, hash: rootHash } = bao.encode(input);
+    const slice = bao.extractSlice(encoding, 500000, 10);
+    // Header, one parent per tree level (1024 chunks: 10 levels), one chunk
+    expect(slice.length).toBe(8 + 10 * 64 + 1024);
+    expect(toHex(bao.decodeSlice(slice, rootHash, 500000, 10))).toBe(
+      toHex(input.subarray(500000, 500010)),
+    );
+  });
+
+  it("covers the final chunk for a start past the end", () => {
+    const input = generateInput(5000);
+    const { encoding, hash: rootHash } = bao.encode(input);
+    const slice = bao.extractSlice(encoding, 6000, 100);
+    // Header, root node, final chunk of 904 bytes
+    expect(slice.length).toBe(8 + 64 + 904);
+    expect(bao.decodeSlice(slice, rootHash, 6000, 100).length).toBe(0);
+  });
+
+  it("verifies slices incrementally", () => {
+    const input = generateInput(20000);
+    const { encoding, hash: rootHash } = bao.encode(input);
+    const slice = bao.extractSlice(encoding, 5000, 6000);
+    const decoder = bao.Decoder.forSlice(rootHash, 5000, 6000);
+    const output: number[] = [];
+    for (let offset = 0; offset < slice.length; offset += 100) {
+      decoder.push(slice.subarray(offset, offset + 100));
+      output.push(...decoder.read());
+    }
+    output.push(...decoder.finish());
+    expect(toHex(new Uint8Array(output))).toBe(toHex(input.subarray(5000, 11000)));
+  });
+
+  it("rejects a corrupted slice", () => {
+    const input = generateInput(20000);
+    const { encoding, hash: rootHash } = bao.encode(input);
+    const slice = bao.extractSlice(encoding, 5000, 10);
+    slice[slice.length - 1] ^= 1;
+    expect(() => bao.decodeSlice(slice, rootHash, 5000, 10)).toThrow(bao.BaoIntegrityError);
+  });
+
+  it("rejects a slice decoded at the wrong range", () => {
+    const input = generateInput(20000);
+    const { encoding, hash: rootHash } = bao.encode(input);
+    const slice = bao.extractSlice(encoding, 5000, 10);
+    expect(() => bao.decodeSlice(slice, rootHash, 9000, 10)).toThrow();
+  });
+
+  it("rejects malformed input", () => {
+    const input = generateInput(3000);
+    const { encoding } = bao.encode(input);
+    const { encoding: outboard } = bao.encodeOutboard(input);
+    expect(() => bao.extractSlice(encoding.subarray(0, 100), 0, 10)).toThrow(/expected/);
+    expect(() => bao.extractSliceOutboard(input.subarray(1), outboard, 0, 10)).toThrow(
+      /Content is/,
+    );
+    expect(() => bao.extractSlice(encoding, -1, 10)).toThrow(/Invalid slice start/);
+    expect(() => bao.extractSlice(encoding, 0, 0.5)).toThrow(/Invalid slice length/);
+  });
+});
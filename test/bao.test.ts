@@ -0,0 +1,211 @@
+/**
+ * Tests for Bao encoding: combined and outboard encodings must match the
+ * layout produced by the reference `bao` tool.
+ */
+
+import { createHash } from "node:crypto";
+
+import { describe, it, expect } from "vitest";
+
+import { hash, hazmat, bao, toHex } from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function lengthHeader(length: number): Uint8Array {
+  const header = new Uint8Array(8);
+  new DataView(header.buffer).setBigUint64(0, BigInt(length), true);
+  return header;
+}
+
+// Straightforward pre-order encoding, as described in the Bao spec. Built on
+// hazmat.hashSubtree, so it checks the tree layout across many lengths; the
+// known answers below pin the bytes themselves.
+function referenceTree(input: Uint8Array, startChunk: number, outboard: boolean): Uint8Array {
+  if (input.length <= 1024) {
+    return outboard ? new Uint8Array(0) : input;
+  }
+  const split = hazmat.leftSubtreeLen(input.length);
+  const left = input.subarray(0, split);
+  const right = input.subarray(split);
+  const rightStart = startChunk + split / 1024;
+  return concat([
+    hazmat.hashSubtree(left, startChunk),
+    hazmat.hashSubtree(right, rightStart),
+    referenceTree(left, startChunk, outboard),
+    referenceTree(right, rightStart, outboard),
+  ]);
+}
+
+function referenceEncode(input: Uint8Array, outboard: boolean): Uint8Array {
+  return concat([lengthHeader(input.length), referenceTree(input, 0, outboard)]);
+}
+
+const LENGTHS = [
+  0,
+  1,
+  1023,
+  1024,
+  1025,
+  2048,
+  2049,
+  3072,
+  3073,
+  4096,
+  4097,
+  5120,
+  8192,
+  8193,
+  16384,
+  31744,
+  102400,
+  1048576 + 7,
+];
+
+function sha256Hex(bytes: Uint8Array): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+// [input length, SHA-256 of the combined encoding, SHA-256 of the outboard encoding]
+// Produced by a standalone BLAKE3 + Bao encoder written from the BLAKE3 reference
+// implementation and the Bao spec, sharing no code with this library; its root
+// hashes agree with @huggingface/blake3-wasm and the official BLAKE3 vectors.
+const KNOWN_ANSWERS: [number, string, string][] = [
+  [
+    0,
+    "af5570f5a1810b7af78caf4bc70a660f0df51e42baf91d4de5b2328de0e83dfc",
+    "af5570f5a1810b7af78caf4bc70a660f0df51e42baf91d4de5b2328de0e83dfc",
+  ],
+  [
+    1,
+    "a536aa3cede6ea3c1f3e0357c3c60e0f216a8c89b853df13b29daa8f85065dfb",
+    "7c9fa136d4413fa6173637e883b6998d32e1d675f88cddff9dcbcf331820f4b8",
+  ],
+  [
+    1023,
+    "9ee4542ebb91daafed102b0199a470cec11dd42f46ca8d9abe4d8d2d03259ef2",
+    "5ce0fabd6443e12efeb4a11a2be63dafeafcb069702562729672c1ef7449a55a",
+  ],
+  [
+    1024,
+    "71b5b6cf8f7e3ec39cb9805572d55194c45bed9f46715c512783a2aa22750e84",
+    "fef02424157f106b48d04276276c15ebba9c516e6024d4f82ea2f648af3e09c8",
+  ],
+  [
+    1025,
+    "9b5fd11233096bd0ab8a5f0f3fac2da0009eaf10704596ca3f71dee4d28e3f32",
+    "77be04208af7ea3306c6beb012ddad376aefe7ffab186615301fb03288b3a9c6",
+  ],
+  [
+    2048,
+    "9780a01972d2701e93ef927390499a82c3d49df8072b03f3be9b4b0d3c083eff",
+    "0f7134c7bbabb92a7aebc29ae8a0ed34bffb7f77e056ca22062173cf2fc92377",
+  ],
+  [
+    2049,
+    "0e0a2b66c4b6a3ba6f2ef33f7096117dc86d1f1c685ba050f4abe479fddd2dad",
+    "0d5ea1d0ff8764f02b278a3e9021046a994bf1e9a42b631bcee7bfadbd632918",
+  ],
+  [
+    3072,
+    "2c19836f92a8f16f2959791448f337a22ca9ee716250f8328009d718f0a3adf4",
+    "080e20942e232a2817b5da2ff1074395294acefe946cde7e486f07fcfb11abfc",
+  ],
+  [
+    3073,
+    "f2fa19fee0f4332a9f2aed3da0fec13800cef6958750ba9b8cfebfb8b24d07d4",
+    "2a82729a7afca3ee4b0f3bab0db0366ea0f641d52803e8c245785b8ebfe47dc1",
+  ],
+  [
+    4096,
+    "aff9029d15a2b5cfe972fcd370013f78769facdc2114c0eea37a0d7c2f4576b8",
+    "4f1da48d564ad09bc26a12727fefc6c67597e75c77b497da9d921dd960164d12",
+  ],
+  [
+    4097,
+    "82496c006fc4db3f8fcc46b571631b3a9d10ac6b27ed0b9787b0691de48add03",
+    "5374bdf5c5feb4458cfbeec843dc94a75806d0c48f9113e921cad91d63089436",
+  ],
+  [
+    1048576 + 7,
+    "9083a3c8a6b3c361fb2dd0c172520b23d58da047a5d330d9b41f01b46191b7fb",
+    "cb7016c43795ff2401b1a0f2d6b6d19e6b9424a46c3a0e05bc48b039d102dc02",
+  ],
+];
+
+describe("Bao known answers", () => {
+  for (const [length, encodingSha256, outboardSha256] of KNOWN_ANSWERS) {
+    it(`matches the known encodings of ${length} bytes`, () => {
+      const input = generateInput(length);
+      expect(sha256Hex(bao.encode(input).encoding)).toBe(encodingSha256);
+      expect(sha256Hex(bao.encodeOutboard(input).encoding)).toBe(outboardSha256);
+    });
+  }
+
+  it("matches the known outboard encoding of 2049 bytes", () => {
+    // Root node, then the left subtree's node; the third chunk is a lone leaf
+    expect(toHex(bao.encodeOutboard(generateInput(2049)).encoding)).toBe(
+      "0108000000000000" +
+        "811f7d4f1735258e27c68b9214ff7c4aac866d47f73deef1fd8908b5e38f804f" +
+        "1ad5f780a5e31e5ae4584c8ea23e6e256eda8d14d4aba69c5350c4ec54be7f0a" +
+        "5c9e654411e393d1f4bec710ccd5bc5669ab177d610a0eb691fcfee92fb4e8b1" +
+        "5b1f23b8390368a2c15095910389d1b716eb52a6dfd34d0aa66a22a21b761ca7",
+    );
+  });
+});
+
+describe("Bao encoding", () => {
+  for (const length of LENGTHS) {
+    it(`encodes ${length} bytes`, () => {
+      const input = generateInput(length);
+      const { encoding, hash: rootHash } = bao.encode(input);
+
+      expect(toHex(rootHash)).toBe(toHex(hash(input)));
+      expect(encoding.length).toBe(bao.encodedSize(length));
+      expect(toHex(encoding)).toBe(toHex(referenceEncode(input, false)));
+    });
+
+    it(`encodes ${length} bytes outboard`, () => {
+      const input = generateInput(length);
+      const { encoding, hash: rootHash } = bao.encodeOutboard(input);
+
+      expect(toHex(rootHash)).toBe(toHex(hash(input)));
+      expect(encoding.length).toBe(bao.outboardSize(length));
+      expect(toHex(encoding)).toBe(toHex(referenceEncode(input, true)));
+    });
+  }
+
+  it("writes the length header little-endian", () => {
+    const { encoding } = bao.encode(generateInput(0x0302));
+    expect(Array.from(encoding.subarray(0, 8))).toEqual([2, 3, 0, 0, 0, 0, 0, 0]);
+  });
+
+  it("stores the root children as the first parent node", () => {
+    const input = generateInput(5000);
+    const { encoding } = bao.encodeOutboard(input);
+    const left = encoding.subarray(8, 40);
+    const right = encoding.subarray(40, 72);
+    expect(toHex(hazmat.finalizeRoot(left, right))).toBe(toHex(hash(input)));
+  });
+
+  it("computes sizes", () => {
+    expect(bao.encodedSize(0)).toBe(8);
+    expect(bao.encodedSize(1024)).toBe(8 + 1024);
+    expect(bao.encodedSize(1025)).toBe(8 + 64 + 1025);
+    expect(bao.outboardSize(1025)).toBe(8 + 64);
+    expect(bao.outboardSize(1024 * 1024)).toBe(8 + 1023 * 64);
+  });
+
+  it("rejects invalid content lengths", () => {
+    expect(() => bao.encodedSize(-1)).toThrow(/Invalid content length/);
+    expect(() => bao.outboardSize(1.5)).toThrow(/Invalid content length/);
+  });
+});
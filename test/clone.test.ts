@@ -0,0 +1,76 @@
+/**
+ * Tests for Hasher.clone() and non-destructive finalization.
+ *
+ * Workload context: rolling digests of append-only logs, where the hash of
+ * the prefix is needed at every checkpoint without re-hashing from scratch.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { hash, createHasher, createKeyed, createDeriveKey, toHex } from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+describe("Hasher.finalize() is non-destructive", () => {
+  it("produces prefix digests at every checkpoint of one stream", () => {
+    const input = generateInput(40 * 1024 + 123);
+    const checkpoints = [0, 1, 64, 1024, 1025, 3000, 4096, 9000, 17 * 1024, input.length];
+
+    const hasher = createHasher();
+    let fed = 0;
+    for (const checkpoint of checkpoints) {
+      hasher.update(input.subarray(fed, checkpoint));
+      fed = checkpoint;
+      expect(toHex(hasher.finalize())).toBe(toHex(hash(input.subarray(0, checkpoint))));
+    }
+  });
+
+  it("returns the same digest when finalized repeatedly", () => {
+    const hasher = createHasher().update(generateInput(7 * 1024 + 5));
+    const first = toHex(hasher.finalize(200));
+    expect(toHex(hasher.finalize(200))).toBe(first);
+    expect(toHex(hasher.finalizeXof().read(200))).toBe(first);
+    expect(toHex(hasher.finalize())).toBe(first.slice(0, 64));
+  });
+});
+
+describe("Hasher.clone()", () => {
+  it("forks a stream mid-chunk", () => {
+    const input = generateInput(6000);
+    const base = createHasher().update(input.subarray(0, 2500));
+    const fork = base.clone();
+
+    base.update(input.subarray(2500));
+    fork.update(new Uint8Array([1, 2, 3]));
+
+    expect(toHex(base.finalize())).toBe(toHex(hash(input)));
+    const forked = new Uint8Array(2503);
+    forked.set(input.subarray(0, 2500));
+    forked.set([1, 2, 3], 2500);
+    expect(toHex(fork.finalize())).toBe(toHex(hash(forked)));
+  });
+
+  it("copies the CV stack after SIMD updates", () => {
+    const input = generateInput(100 * 1024 + 9);
+    const base = createHasher().update(input.subarray(0, 37 * 1024 + 1));
+    const fork = base.clone();
+    base.reset();
+
+    fork.update(input.subarray(37 * 1024 + 1));
+    expect(toHex(fork.finalize())).toBe(toHex(hash(input)));
+  });
+
+  it("preserves keyed and derive_key modes", () => {
+    const key = new Uint8Array(32).fill(9);
+    const input = generateInput(5000);
+
+    const keyed = createKeyed(key).update(input.subarray(0, 1000));
+    expect(toHex(keyed.clone().update(input.subarray(1000)).finalize())).toBe(
+      toHex(createKeyed(key).update(input).finalize()),
+    );
+
+    const derive = createDeriveKey("clone test").update(input.subarray(0, 3000));
+    expect(toHex(derive.clone().update(input.subarray(3000)).finalize())).toBe(
+      toHex(createDeriveKey("clone test").update(input).finalize()),
+    );
+  });
+});
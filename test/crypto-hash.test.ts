@@ -0,0 +1,100 @@
+/**
+ * Tests for the crypto.Hash-compatible adapter (blake3-jit/node).
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { hash, keyedHash, createHasher, toHex } from "../src/index.js";
+import { createHash } from "../src/node.js";
+import { generateInput } from "./helpers.js";
+
+describe("createHash", () => {
+  it("returns a Buffer digest by default", () => {
+    const input = generateInput(5000);
+    const digest = createHash().update(input).digest();
+    expect(Buffer.isBuffer(digest)).toBe(true);
+    expect(toHex(digest)).toBe(toHex(hash(input)));
+  });
+
+  it("encodes the digest", () => {
+    const input = generateInput(100);
+    const expected = Buffer.from(hash(input));
+    expect(createHash().update(input).digest("hex")).toBe(expected.toString("hex"));
+    expect(createHash().update(input).digest("base64")).toBe(expected.toString("base64"));
+    expect(createHash().update(input).digest("base64url")).toBe(expected.toString("base64url"));
+    expect(createHash().update(input).digest("latin1")).toBe(expected.toString("latin1"));
+  });
+
+  it("decodes strings with the input encoding", () => {
+    const expected = toHex(hash(new Uint8Array([0xde, 0xad, 0xbe, 0xef])));
+    expect(createHash().update("deadbeef", "hex").digest("hex")).toBe(expected);
+    expect(createHash().update("3q2+7w==", "base64").digest("hex")).toBe(expected);
+    expect(createHash().update("Þ­¾ï", "latin1").digest("hex")).toBe(expected);
+    expect(createHash().update("héllo").digest("hex")).toBe(
+      toHex(hash(new TextEncoder().encode("héllo"))),
+    );
+  });
+
+  it("accepts Buffer, typed arrays, DataView and ArrayBuffer", () => {
+    const input = generateInput(64);
+    const expected = toHex(hash(input));
+    const buffer = input.slice().buffer;
+    expect(createHash().update(Buffer.from(input)).digest("hex")).toBe(expected);
+    expect(createHash().update(buffer).digest("hex")).toBe(expected);
+    expect(createHash().update(new DataView(buffer)).digest("hex")).toBe(expected);
+    // Bytes of the view, not its element values
+    expect(createHash().update(new Uint32Array(buffer)).digest("hex")).toBe(expected);
+    expect(
+      createHash()
+        .update(new Uint16Array(buffer, 2, 4))
+        .digest("hex"),
+    ).toBe(toHex(hash(input.subarray(2, 10))));
+  });
+
+  it("rejects unsupported data", () => {
+    expect(() => createHash().update(42 as unknown as string)).toThrow(TypeError);
+  });
+
+  it("supports incremental updates", () => {
+    const input = generateInput(10000);
+    const hasher = createHash();
+    for (let offset = 0; offset < input.length; offset += 999) {
+      hasher.update(input.subarray(offset, offset + 999));
+    }
+    expect(hasher.digest("hex")).toBe(toHex(hash(input)));
+  });
+
+  it("supports keyed hashing and custom output length", () => {
+    const key = generateInput(32);
+    const input = generateInput(2000);
+    expect(createHash({ key }).update(input).digest("hex")).toBe(toHex(keyedHash(key, input)));
+    expect(createHash({ outputLength: 100 }).update(input).digest("hex")).toBe(
+      toHex(createHasher().update(input).finalize(100)),
+    );
+  });
+
+  it("copies the current state", () => {
+    const input = generateInput(3000);
+    const original = createHash().update(input.subarray(0, 1000));
+    const copy = original.copy();
+    original.update(input.subarray(1000));
+    expect(original.digest("hex")).toBe(toHex(hash(input)));
+    expect(copy.digest("hex")).toBe(toHex(hash(input.subarray(0, 1000))));
+
+    const longer = createHash().update(input).copy({ outputLength: 64 });
+    expect(longer.digest("hex")).toBe(toHex(hash(input, 64)));
+  });
+
+  it("throws once the digest has been computed", () => {
+    const hasher = createHash().update("abc");
+    hasher.digest();
+    for (const use of [() => hasher.update("x"), () => hasher.digest(), () => hasher.copy()]) {
+      expect(use).toThrow("Digest already called");
+      try {
+        use();
+      } catch (e) {
+        expect((e as { code?: string }).code).toBe("ERR_CRYPTO_HASH_FINALIZED");
+      }
+    }
+  });
+});
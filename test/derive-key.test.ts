@@ -0,0 +1,55 @@
+/**
+ * Tests for prepared derive_key contexts.
+ *
+ * Workload context: per-tenant key derivation derives many short keys under
+ * a handful of context strings; the context key is hashed once up front.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { createDeriveKey, deriveKey, prepareDeriveKeyContext, toHex } from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+describe("prepareDeriveKeyContext()", () => {
+  const context = "blake3-jit prepared context test v1";
+
+  it("matches createDeriveKey() for one-shot derivation", () => {
+    const ctx = prepareDeriveKeyContext(context);
+    for (const length of [0, 1, 32, 1024, 1025, 8192, 20 * 1024 + 3]) {
+      const material = generateInput(length);
+      const expected = toHex(createDeriveKey(context).update(material).finalize(64));
+      expect(toHex(ctx.deriveKey(material, 64))).toBe(expected);
+      expect(toHex(ctx.deriveKey(material))).toBe(expected.slice(0, 64));
+    }
+  });
+
+  it("writes into a caller-provided buffer", () => {
+    const ctx = prepareDeriveKeyContext(context);
+    const material = generateInput(100);
+    const output = new Uint8Array(48);
+    ctx.deriveKeyInto(material, output, 48);
+    expect(toHex(output)).toBe(toHex(deriveKey(context, material, 48)));
+    expect(() => ctx.deriveKeyInto(material, new Uint8Array(16))).toThrow();
+  });
+
+  it("spawns independent hashers", () => {
+    const ctx = prepareDeriveKeyContext(context);
+    const material = generateInput(3000);
+
+    const a = ctx.createHasher().update(material.subarray(0, 1000));
+    const b = ctx.createHasher().update(material);
+    a.update(material.subarray(1000));
+
+    const expected = toHex(createDeriveKey(context).update(material).finalize());
+    expect(toHex(a.finalize())).toBe(expected);
+    expect(toHex(b.finalize())).toBe(expected);
+  });
+
+  it("separates different contexts", () => {
+    const material = generateInput(32);
+    const k1 = prepareDeriveKeyContext("context 1").deriveKey(material);
+    const k2 = prepareDeriveKeyContext("context 2").deriveKey(material);
+    expect(toHex(k1)).not.toBe(toHex(k2));
+    expect(prepareDeriveKeyContext("context 1").context).toBe("context 1");
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Tests for digest encodings and constant-time comparison.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  hash,
+  keyedHash,
+  deriveKey,
+  createHasher,
+  toHex,
+  fromHex,
+  toBase64url,
+  toBase32,
+  equals,
+  hashHex,
+  keyedHashHex,
+  deriveKeyHex,
+} from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+const LENGTHS = [0, 1, 2, 3, 4, 5, 6, 31, 32, 33, 64, 100];
+
+describe("toHex / fromHex", () => {
+  for (const length of LENGTHS) {
+    it(`round-trips ${length} bytes`, () => {
+      const bytes = generateInput(length).map((b, i) => (b * 7 + i) & 0xff);
+      const hex = toHex(bytes);
+      expect(hex).toBe(Buffer.from(bytes).toString("hex"));
+      expect(fromHex(hex)).toEqual(bytes);
+      expect(fromHex(hex.toUpperCase())).toEqual(bytes);
+    });
+  }
+
+  it("rejects invalid hex", () => {
+    expect(() => fromHex("abc")).toThrow("Invalid hex string");
+    expect(() => fromHex("zz")).toThrow("Invalid hex string");
+    expect(() => fromHex("0x12")).toThrow("Invalid hex string");
+    expect(() => fromHex("12 4")).toThrow("Invalid hex string");
+  });
+});
+
+describe("toBase64url", () => {
+  for (const length of LENGTHS) {
+    it(`matches Buffer for ${length} bytes`, () => {
+      const bytes = generateInput(length).map((b) => 255 - b);
+      expect(toBase64url(bytes)).toBe(Buffer.from(bytes).toString("base64url"));
+    });
+  }
+});
+
+describe("toBase32", () => {
+  it("matches the RFC 4648 test vectors (lowercase, unpadded)", () => {
+    const encoder = new TextEncoder();
+    const vectors: [string, string][] = [
+      ["", ""],
+      ["f", "my"],
+      ["fo", "mzxq"],
+      ["foo", "mzxw6"],
+      ["foob", "mzxw6yq"],
+      ["fooba", "mzxw6ytb"],
+      ["foobar", "mzxw6ytboi"],
+    ];
+    for (const [input, expected] of vectors) {
+      expect(toBase32(encoder.encode(input))).toBe(expected);
+    }
+  });
+
+  it("encodes a digest in 52 characters", () => {
+    const encoded = toBase32(hash(generateInput(1000)));
+    expect(encoded).toMatch(/^[a-z2-7]{52}$/);
+  });
+});
+
+describe("equals", () => {
+  it("compares contents", () => {
+    const a = hash(generateInput(100));
+    expect(equals(a, a.slice())).toBe(true);
+    expect(equals(new Uint8Array(0), new Uint8Array(0))).toBe(true);
+
+    for (const index of [0, 15, 31]) {
+      const b = a.slice();
+      b[index] ^= 1;
+      expect(equals(a, b)).toBe(false);
+    }
+  });
+
+  it("returns false for different lengths", () => {
+    const a = createHasher().update(generateInput(10)).finalize(64);
+    expect(equals(a, a.subarray(0, 32))).toBe(false);
+    expect(equals(a.subarray(0, 32), a)).toBe(false);
+  });
+});
+
+describe("hex shortcuts", () => {
+  const input = generateInput(5000);
+  const key = generateInput(32);
+  const context = "blake3-jit 2024-01-01 digest test";
+
+  it("hashHex", () => {
+    expect(hashHex(input)).toBe(toHex(hash(input)));
+    expect(hashHex(input, 16)).toBe(toHex(hash(input, 16)));
+  });
+
+  it("keyedHashHex", () => {
+    expect(keyedHashHex(key, input)).toBe(toHex(keyedHash(key, input)));
+    expect(keyedHashHex(key, input, 64)).toBe(toHex(keyedHash(key, input, 64)));
+  });
+
+  it("deriveKeyHex", () => {
+    expect(deriveKeyHex(context, input)).toBe(toHex(deriveKey(context, input)));
+    expect(deriveKeyHex(context, input, 8)).toBe(toHex(deriveKey(context, input, 8)));
+  });
+
+  it("matches the official empty-input hash", () => {
+    expect(hashHex(new Uint8Array(0))).toBe(
+      "af1349b9f5f9a1a6a0404dea36dcc9499bcb25c9adc112b7cc9a93cae41f3262",
+    );
+  });
+});
@@ -0,0 +1,12 @@
+// Hash worker that crashes on subtrees starting with byte 0xff
+import { parentPort } from "node:worker_threads";
+
+const on = parentPort.on.bind(parentPort);
+parentPort.on = (type, listener) =>
+  on(type, (job) => {
+    if (new Uint8Array(job.buffer, job.byteOffset, 1)[0] === 0xff) {
+      throw new Error("worker crashed");
+    }
+    listener(job);
+  });
+await import("./parallel-worker.mjs");
@@ -0,0 +1,82 @@
+/**
+ * Tests for file hashing (blake3-jit/node).
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+
+import { hash, keyedHash, createHasher, toHex } from "../src/index.js";
+import { hashFile, hashFileSync } from "../src/node.js";
+import { generateInput } from "./helpers.js";
+
+const LENGTHS = [0, 1, 1024, 4096, 4097, 12293, 1024 * 1024, 3 * 1024 * 1024 + 17];
+
+describe("hashFile", () => {
+  let dir: string;
+  const files = new Map<number, string>();
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "blake3-jit-"));
+    for (const length of LENGTHS) {
+      const path = join(dir, `input-${length}.bin`);
+      writeFileSync(path, generateInput(length));
+      files.set(length, path);
+    }
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  for (const length of LENGTHS) {
+    it(`hashes a ${length}-byte file`, async () => {
+      const expected = toHex(hash(generateInput(length)));
+      const path = files.get(length)!;
+      expect(toHex(await hashFile(path))).toBe(expected);
+      expect(toHex(hashFileSync(path))).toBe(expected);
+    });
+  }
+
+  for (const [bufferSize, aligned] of [
+    [5000, true],
+    [5000, false],
+    [1000, false],
+    [65536, false],
+  ] as const) {
+    it(`hashes with ${bufferSize}-byte ${aligned ? "aligned" : "unaligned"} reads`, async () => {
+      const length = 3 * 1024 * 1024 + 17;
+      const expected = toHex(hash(generateInput(length)));
+      const path = files.get(length)!;
+      expect(toHex(await hashFile(path, { bufferSize, aligned }))).toBe(expected);
+      expect(toHex(hashFileSync(path, { bufferSize, aligned }))).toBe(expected);
+    });
+  }
+
+  it("supports hashing modes and output length", async () => {
+    const input = generateInput(12293);
+    const path = files.get(12293)!;
+    const key = generateInput(32);
+    expect(toHex(await hashFile(path, { key }))).toBe(toHex(keyedHash(key, input)));
+    expect(toHex(hashFileSync(path, { outputLength: 200 }))).toBe(
+      toHex(createHasher().update(input).finalize(200)),
+    );
+  });
+
+  it("accepts file URLs", async () => {
+    const path = files.get(4097)!;
+    const url = new URL(`file://${path}`);
+    expect(toHex(await hashFile(url))).toBe(toHex(hash(generateInput(4097))));
+  });
+
+  it("fails for missing files", async () => {
+    await expect(hashFile(join(dir, "missing"))).rejects.toThrow(/ENOENT/);
+    expect(() => hashFileSync(join(dir, "missing"))).toThrow(/ENOENT/);
+  });
+
+  it("validates the buffer size", async () => {
+    await expect(hashFile(files.get(1)!, { bufferSize: 0 })).rejects.toThrow(/Invalid buffer size/);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for hashMany() / hashManyStrided().
+ *
+ * Workload context: content-defined chunking produces many small, independent
+ * chunks; these are packed four at a time into the compress4x SIMD lanes.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { hash, hashMany, hashManyStrided, toHex } from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+// generateInput() shifted by `seed` bytes, so that inputs of equal length differ
+function seededInput(length: number, seed: number): Uint8Array {
+  return generateInput(length + seed).slice(seed);
+}
+
+describe("hashMany()", () => {
+  it("matches hash() for messages of mixed lengths", () => {
+    // Lanes finish at different blocks; > 1 KiB messages take the fallback path
+    const lengths = [0, 1, 63, 64, 65, 100, 1023, 1024, 1025, 3, 5000, 128, 700, 64 * 1024, 2];
+    const inputs = lengths.map((length, i) => seededInput(length, i));
+    const digests = hashMany(inputs);
+
+    expect(digests.length).toBe(inputs.length);
+    for (let i = 0; i < inputs.length; i++) {
+      expect(toHex(digests[i])).toBe(toHex(hash(inputs[i])));
+    }
+  });
+
+  it("handles batches that are not a multiple of 4", () => {
+    for (const count of [0, 1, 2, 3, 5, 7]) {
+      const inputs = Array.from({ length: count }, (_, i) => seededInput(100, i));
+      const digests = hashMany(inputs).map(toHex);
+      expect(digests).toEqual(inputs.map((input) => toHex(hash(input))));
+    }
+  });
+
+  it("writes into caller-provided outputs", () => {
+    const inputs = [generateInput(10), seededInput(200, 1), seededInput(1024, 2)];
+    const outputs = inputs.map(() => new Uint8Array(40).fill(0xee));
+    expect(hashMany(inputs, outputs)).toBe(outputs);
+    for (let i = 0; i < inputs.length; i++) {
+      expect(toHex(outputs[i].subarray(0, 32))).toBe(toHex(hash(inputs[i])));
+      expect(outputs[i][32]).toBe(0xee);
+    }
+  });
+
+  it("accepts message views with odd byte offsets", () => {
+    const raw = generateInput(1000);
+    const inputs = [raw.subarray(1, 100), raw.subarray(3, 900), raw.subarray(7, 8)];
+    const digests = hashMany(inputs);
+    for (let i = 0; i < inputs.length; i++) {
+      expect(toHex(digests[i])).toBe(toHex(hash(inputs[i])));
+    }
+  });
+
+  it("rejects mismatched outputs", () => {
+    const inputs = [generateInput(10), generateInput(20)];
+    expect(() => hashMany(inputs, [new Uint8Array(32)])).toThrow();
+    expect(() => hashMany(inputs, [new Uint8Array(32), new Uint8Array(31)])).toThrow();
+  });
+});
+
+describe("hashManyStrided()", () => {
+  for (const messageLen of [1, 37, 64, 100, 1024, 1500]) {
+    it(`matches hash() for ${messageLen}-byte messages`, () => {
+      const count = 9;
+      const input = generateInput(messageLen * count);
+      const digests = hashManyStrided(input, messageLen);
+
+      expect(digests.length).toBe(count * 32);
+      for (let i = 0; i < count; i++) {
+        const message = input.subarray(i * messageLen, (i + 1) * messageLen);
+        expect(toHex(digests.subarray(i * 32, (i + 1) * 32))).toBe(toHex(hash(message)));
+      }
+    });
+  }
+
+  it("writes into a caller-provided output", () => {
+    const input = generateInput(300);
+    const output = new Uint8Array(3 * 32 + 1).fill(0xee);
+    expect(hashManyStrided(input, 100, output)).toBe(output);
+    expect(toHex(output.subarray(64, 96))).toBe(toHex(hash(input.subarray(200))));
+    expect(output[96]).toBe(0xee);
+  });
+
+  it("rejects invalid arguments", () => {
+    expect(() => hashManyStrided(new Uint8Array(10), 0)).toThrow();
+    expect(() => hashManyStrided(new Uint8Array(10), 3)).toThrow();
+    expect(() => hashManyStrided(new Uint8Array(10), 5, new Uint8Array(63))).toThrow();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for the Node.js hash stream (blake3-jit/node).
+ */
+
+import { Readable, Writable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+
+import { describe, it, expect } from "vitest";
+
+import { hash, keyedHash, deriveKey, createHasher, toHex } from "../src/index.js";
+import { createHashStream } from "../src/node.js";
+import { generateInput } from "./helpers.js";
+
+// Readable yielding `input` in pieces of `pieceLen` bytes
+function source(input: Uint8Array, pieceLen: number): Readable {
+  const pieces: Buffer[] = [];
+  for (let offset = 0; offset < input.length; offset += pieceLen) {
+    pieces.push(Buffer.from(input.subarray(offset, offset + pieceLen)));
+  }
+  return Readable.from(pieces);
+}
+
+// Writable collecting everything written to it
+function collector(): Writable & { bytes: () => Uint8Array } {
+  const parts: Buffer[] = [];
+  const sink = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      parts.push(chunk);
+      callback();
+    },
+  });
+  return Object.assign(sink, { bytes: () => new Uint8Array(Buffer.concat(parts)) });
+}
+
+describe("createHashStream", () => {
+  for (const length of [0, 1, 1024, 5000, 100000]) {
+    it(`hashes and passes through ${length} bytes`, async () => {
+      const input = generateInput(length);
+      const hashing = createHashStream();
+      const sink = collector();
+      await pipeline(source(input, 777), hashing, sink);
+
+      expect(toHex(hashing.digest())).toBe(toHex(hash(input)));
+      expect(toHex(sink.bytes())).toBe(toHex(input));
+    });
+  }
+
+  it("emits the digest before finish", async () => {
+    const input = generateInput(3000);
+    const hashing = createHashStream({ passThrough: false });
+    const events: string[] = [];
+    let digest: Uint8Array | undefined;
+    hashing.on("digest", (d: Uint8Array) => {
+      events.push("digest");
+      digest = d;
+    });
+    hashing.on("finish", () => events.push("finish"));
+    await pipeline(source(input, 1000), hashing);
+
+    expect(events).toEqual(["digest", "finish"]);
+    expect(toHex(digest!)).toBe(toHex(hash(input)));
+  });
+
+  it("works as a sink without a reader", async () => {
+    // More than the readable high water mark: pass-through would stall
+    const input = generateInput(200000);
+    const hashing = createHashStream({ passThrough: false });
+    await pipeline(source(input, 4096), hashing);
+    expect(toHex(hashing.digest())).toBe(toHex(hash(input)));
+  });
+
+  it("works as a sink when resumed", async () => {
+    const input = generateInput(200000);
+    const hashing = createHashStream();
+    await pipeline(source(input, 4096), hashing.resume());
+    expect(toHex(hashing.digest())).toBe(toHex(hash(input)));
+  });
+
+  it("supports keyed hashing", async () => {
+    const key = generateInput(33).subarray(1); // unaligned key
+    const input = generateInput(10000);
+    const hashing = createHashStream({ key, passThrough: false });
+    await pipeline(source(input, 3000), hashing);
+    expect(toHex(hashing.digest())).toBe(toHex(keyedHash(key, input)));
+  });
+
+  it("supports key derivation", async () => {
+    const input = generateInput(10000);
+    const hashing = createHashStream({ context: "blake3-jit test", passThrough: false });
+    await pipeline(source(input, 3000), hashing);
+    expect(toHex(hashing.digest())).toBe(toHex(deriveKey("blake3-jit test", input)));
+  });
+
+  it("supports a custom output length", async () => {
+    const input = generateInput(10000);
+    const hashing = createHashStream({ outputLength: 100, passThrough: false });
+    await pipeline(source(input, 3000), hashing);
+    expect(toHex(hashing.digest())).toBe(toHex(createHasher().update(input).finalize(100)));
+  });
+
+  it("hashes written strings as UTF-8", async () => {
+    const hashing = createHashStream({ passThrough: false });
+    hashing.end("héllo");
+    await new Promise((resolve) => hashing.on("finish", resolve));
+    expect(toHex(hashing.digest())).toBe(toHex(hash(new TextEncoder().encode("héllo"))));
+  });
+
+  it("has no digest before finishing", () => {
+    expect(() => createHashStream().digest()).toThrow(/not available/);
+  });
+
+  it("validates options", () => {
+    expect(() => createHashStream({ key: new Uint8Array(32), context: "x" })).toThrow(
+      /mutually exclusive/,
+    );
+    expect(() => createHashStream({ key: new Uint8Array(16) })).toThrow(/32 bytes/);
+    expect(() => createHashStream({ outputLength: -1 })).toThrow(/Invalid output length/);
+  });
+});
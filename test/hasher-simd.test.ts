@@ -0,0 +1,115 @@
+/**
+ * Tests for the WASM SIMD chunk-group path in Hasher.update().
+ *
+ * Large updates are dispatched to compressChunks4x in groups of 4 chunks;
+ * small updates always go through the scalar ChunkState. Both must agree.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { hash, createHasher, createKeyed, createDeriveKey, Hasher, toHex } from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+// Feed `input` in pieces of `pieceLen` bytes (scalar path when pieceLen <= 4096)
+function updateInPieces(hasher: Hasher, input: Uint8Array, pieceLen: number): Hasher {
+  for (let i = 0; i < input.length; i += pieceLen) {
+    hasher.update(input.subarray(i, i + pieceLen));
+  }
+  return hasher;
+}
+
+describe("Hasher.update() SIMD path", () => {
+  // Around chunk-group boundaries: exactly 4 chunks stays scalar, one byte more uses SIMD
+  const sizes = [4096, 4097, 5120, 8192, 8193, 16 * 1024 + 1000, 64 * 1024, 100 * 1024 + 7];
+
+  for (const size of sizes) {
+    it(`matches hash() for a single ${size}-byte update`, () => {
+      const input = generateInput(size);
+      const digest = createHasher().update(input).finalize();
+      expect(toHex(digest)).toBe(toHex(hash(input)));
+    });
+  }
+
+  it("matches the scalar path when mixing small and large updates", () => {
+    const input = generateInput(200 * 1024 + 333);
+    const scalar = updateInPieces(createHasher(), input, 1000).finalize();
+
+    // Unaligned prefix, then a large update starting mid-chunk, then a large aligned one
+    const hasher = createHasher();
+    hasher.update(input.subarray(0, 3));
+    hasher.update(input.subarray(3, 70_000));
+    hasher.update(input.subarray(70_000, 71_680));
+    hasher.update(input.subarray(71_680));
+    expect(toHex(hasher.finalize())).toBe(toHex(scalar));
+  });
+
+  it("handles input views with an odd byteOffset", () => {
+    const raw = generateInput(40 * 1024 + 1);
+    const misaligned = raw.subarray(1);
+    const digest = createHasher().update(misaligned).finalize();
+    expect(toHex(digest)).toBe(toHex(hash(new Uint8Array(misaligned))));
+  });
+
+  it("matches the scalar path in keyed mode", () => {
+    const key = new Uint8Array(32);
+    for (let i = 0; i < 32; i++) key[i] = 255 - i;
+    const input = generateInput(50 * 1024 + 5);
+
+    const simd = createKeyed(key).update(input).finalize();
+    const scalar = updateInPieces(createKeyed(key), input, 512).finalize();
+    expect(toHex(simd)).toBe(toHex(scalar));
+  });
+
+  it("matches the scalar path in derive_key mode", () => {
+    const context = "blake3-jit simd stream test v1";
+    const input = generateInput(33 * 1024);
+
+    const simd = createDeriveKey(context).update(input).finalize(64);
+    const scalar = updateInPieces(createDeriveKey(context), input, 777).finalize(64);
+    expect(toHex(simd)).toBe(toHex(scalar));
+  });
+
+  it("continues the chunk counter after reset()", () => {
+    const first = generateInput(9000);
+    const second = generateInput(30 * 1024 + 17);
+
+    const hasher = createHasher();
+    hasher.update(first).finalize();
+    hasher.reset();
+    hasher.update(second);
+    expect(toHex(hasher.finalize())).toBe(toHex(hash(second)));
+  });
+
+  it("matches the scalar path across the 2^32 chunk counter boundary", () => {
+    // A full chunk buffered at chunk counter 2^32 - 3, with 31 stacked CVs
+    const base = createHasher().update(generateInput(1024)).exportState();
+    const state = new Uint8Array(base.length + 31 * 32);
+    state.set(base);
+    state[1] = 31;
+    new DataView(state.buffer).setUint32(8, 0xfffffffd, true);
+    for (let i = base.length; i < state.length; i++) state[i] = (i * 7) & 0xff;
+
+    const input = generateInput(20 * 1024 + 5);
+    const simd = Hasher.importState(state).update(input);
+    const scalar = updateInPieces(Hasher.importState(state), input, 1000);
+    expect(toHex(simd.finalize())).toBe(toHex(scalar.finalize()));
+  });
+});
+
+describe("SIMD kernels across modes", () => {
+  it("does not leak key words between keyed streams and hash()", () => {
+    const key = new Uint8Array(32).fill(0x42);
+    const input = generateInput(48 * 1024 + 3);
+
+    const expectedHash = toHex(updateInPieces(createHasher(), input, 1000).finalize());
+    const expectedMac = toHex(updateInPieces(createKeyed(key), input, 1000).finalize());
+
+    // Interleave SIMD users that share the WASM arena
+    const keyed = createKeyed(key);
+    keyed.update(input.subarray(0, 20_000));
+    expect(toHex(hash(input))).toBe(expectedHash);
+    keyed.update(input.subarray(20_000));
+    expect(toHex(keyed.finalize())).toBe(expectedMac);
+    expect(toHex(createHasher().update(input).finalize())).toBe(expectedHash);
+  });
+});
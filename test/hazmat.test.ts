@@ -0,0 +1,87 @@
+/**
+ * Tests for the hazmat subtree API: hashing pieces of an input separately
+ * and combining their chaining values into the root hash.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { hash, keyedHash, deriveKey, hazmat, toHex } from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+// Hash `input` (starting at chunk `startChunk`) by recursive splitting
+function hashTree(input: Uint8Array, startChunk: number, mode: hazmat.Mode): Uint8Array {
+  if (input.length <= 4 * 1024) {
+    return hazmat.hashSubtree(input, startChunk, mode);
+  }
+  const split = hazmat.leftSubtreeLen(input.length);
+  return hazmat.mergeSubtrees(
+    hashTree(input.subarray(0, split), startChunk, mode),
+    hashTree(input.subarray(split), startChunk + split / 1024, mode),
+    mode,
+  );
+}
+
+function hashRoot(input: Uint8Array, mode: hazmat.Mode, outputLength?: number): Uint8Array {
+  const split = hazmat.leftSubtreeLen(input.length);
+  const left = hashTree(input.subarray(0, split), 0, mode);
+  const right = hashTree(input.subarray(split), split / 1024, mode);
+  return hazmat.finalizeRoot(left, right, mode, outputLength);
+}
+
+describe("hazmat", () => {
+  // 2 chunks up to deep trees with partial last chunks
+  const sizes = [1025, 2048, 3073, 5 * 1024, 8 * 1024 + 1, 31 * 1024 + 500, 100 * 1024 + 7];
+
+  for (const size of sizes) {
+    it(`combines subtrees into hash() for ${size} bytes`, () => {
+      const input = generateInput(size);
+      expect(toHex(hashRoot(input, hazmat.HASH_MODE))).toBe(toHex(hash(input)));
+    });
+  }
+
+  it("matches keyedHash() and deriveKey()", () => {
+    const key = new Uint8Array(32).fill(3);
+    const input = generateInput(20 * 1024 + 1);
+    expect(toHex(hashRoot(input, hazmat.keyedMode(key)))).toBe(toHex(keyedHash(key, input)));
+    expect(toHex(hashRoot(input, hazmat.deriveKeyMode("hazmat test"), 64))).toBe(
+      toHex(deriveKey("hazmat test", input, 64)),
+    );
+  });
+
+  it("hashes a large subtree in one call", () => {
+    // SIMD chunk groups inside hashSubtree, at a non-zero aligned offset
+    const input = generateInput(64 * 1024 + 64 * 1024);
+    const left = hazmat.hashSubtree(input.subarray(0, 64 * 1024), 0);
+    const right = hazmat.hashSubtree(input.subarray(64 * 1024), 64);
+    expect(toHex(hazmat.finalizeRoot(left, right))).toBe(toHex(hash(input)));
+  });
+
+  it("produces extended root output", () => {
+    const input = generateInput(4096);
+    const left = hazmat.hashSubtree(input.subarray(0, 2048), 0);
+    const right = hazmat.hashSubtree(input.subarray(2048), 2);
+    const long = hazmat.finalizeRoot(left, right, hazmat.HASH_MODE, 200);
+    const reader = hazmat.rootOutputReader(left, right);
+    expect(toHex(reader.seek(100).read(100))).toBe(toHex(long.subarray(100)));
+    expect(toHex(long.subarray(0, 32))).toBe(toHex(hash(input)));
+  });
+
+  it("reports subtree size limits", () => {
+    expect(hazmat.maxSubtreeLen(0)).toBe(Number.POSITIVE_INFINITY);
+    expect(hazmat.maxSubtreeLen(1)).toBe(1024);
+    expect(hazmat.maxSubtreeLen(12)).toBe(4 * 1024);
+    expect(hazmat.maxSubtreeLen(2 ** 40)).toBe(2 ** 40 * 1024);
+    expect(hazmat.leftSubtreeLen(1025)).toBe(1024);
+    expect(hazmat.leftSubtreeLen(4096)).toBe(2048);
+    expect(hazmat.leftSubtreeLen(4097)).toBe(4096);
+  });
+
+  it("rejects invalid subtrees and chaining values", () => {
+    expect(() => hazmat.hashSubtree(new Uint8Array(0), 0)).toThrow();
+    expect(() => hazmat.hashSubtree(new Uint8Array(2048), 1)).toThrow();
+    expect(() => hazmat.hashSubtree(new Uint8Array(10), -1)).toThrow();
+    expect(() => hazmat.mergeSubtrees(new Uint8Array(31), new Uint8Array(32))).toThrow();
+    expect(() => hazmat.leftSubtreeLen(1024)).toThrow();
+    expect(() => hazmat.keyedMode(new Uint8Array(16))).toThrow();
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * Shared test helpers.
+ */
+
+/**
+ * Test input in the pattern of the official BLAKE3 test vectors:
+ * bytes 0, 1, 2, ..., 250, 0, 1, ...
+ *
+ * @param length - Number of bytes
+ * @param buffer - Buffer to fill from its start (default: a new ArrayBuffer)
+ */
+export function generateInput(length: number, buffer?: ArrayBufferLike): Uint8Array {
+  const input = new Uint8Array(buffer ?? new ArrayBuffer(length), 0, length);
+  for (let i = 0; i < length; i++) {
+    input[i] = i % 251;
+  }
+  return input;
+}
@@ -0,0 +1,164 @@
+/**
+ * Tests for non-Uint8Array input: strings, buffers, views and chunk iterables.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  hash,
+  hashInto,
+  keyedHash,
+  deriveKey,
+  prepareDeriveKeyContext,
+  createHasher,
+  createKeyed,
+  hashHex,
+  verifyKeyed,
+  type Input,
+  toHex,
+} from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+const LENGTHS = [0, 1, 1024, 4096, 5000, 100_000];
+
+describe("string input", () => {
+  it("hashes the UTF-8 encoding", () => {
+    for (const text of ["", "abc", "héllo wörld", "日本語", "emoji 🎉", "x".repeat(10_000)]) {
+      const bytes = new TextEncoder().encode(text);
+      expect(toHex(hash(text))).toBe(toHex(hash(bytes)));
+      expect(toHex(createHasher().update(text).finalize())).toBe(toHex(hash(bytes)));
+    }
+  });
+
+  it("matches the official test vector for 'abc'", () => {
+    expect(hashHex("abc")).toBe("6437b3ac38465133ffb63b75273a8db548c558465d79db03fd359c6cd5bd9d85");
+  });
+});
+
+describe("buffer and view input", () => {
+  for (const length of LENGTHS) {
+    it(`hashes the bytes of ${length}-byte buffers and views`, () => {
+      const bytes = generateInput(length);
+      const expected = toHex(hash(bytes));
+
+      const arrayBuffer = bytes.slice().buffer;
+      const shared = new SharedArrayBuffer(length);
+      new Uint8Array(shared).set(bytes);
+
+      const inputs: Input[] = [
+        arrayBuffer,
+        shared,
+        new DataView(arrayBuffer),
+        new Uint8ClampedArray(arrayBuffer),
+        new Uint8Array(shared),
+      ];
+      if (length % 4 === 0) {
+        inputs.push(new Uint32Array(arrayBuffer), new Float32Array(arrayBuffer));
+      }
+      if (length % 2 === 0) {
+        inputs.push(new Uint16Array(arrayBuffer));
+      }
+
+      for (const input of inputs) {
+        expect(toHex(hash(input))).toBe(expected);
+        expect(toHex(createHasher().update(input).finalize())).toBe(expected);
+      }
+    });
+  }
+
+  it("hashes a Uint16Array as bytes, not truncated elements", () => {
+    const values = new Uint16Array([0x0102, 0x0304, 0xfffe]);
+    const bytes = new Uint8Array(values.buffer);
+    expect(toHex(hash(values))).toBe(toHex(hash(bytes)));
+    expect(toHex(hash(values))).not.toBe(toHex(hash(Uint8Array.from(values))));
+
+    const ctx = prepareDeriveKeyContext("blake3-jit input test");
+    expect(toHex(ctx.deriveKey(values))).toBe(toHex(deriveKey("blake3-jit input test", bytes)));
+  });
+
+  it("respects the view's offset and length", () => {
+    const backing = generateInput(10_000);
+    const view = new DataView(backing.buffer, 1001, 7000);
+    const expected = toHex(hash(backing.subarray(1001, 8001)));
+    expect(toHex(hash(view))).toBe(expected);
+    expect(toHex(createHasher().update(view).finalize())).toBe(expected);
+    expect(toHex(hash(new Uint16Array(backing.buffer, 1000, 3500)))).toBe(
+      toHex(hash(backing.subarray(1000, 8000))),
+    );
+  });
+});
+
+describe("iterable input", () => {
+  for (const length of LENGTHS) {
+    it(`hashes ${length} bytes split into chunks`, () => {
+      const bytes = generateInput(length);
+      const expected = toHex(hash(bytes));
+      const parts = [
+        bytes.subarray(0, length >> 2),
+        bytes.subarray(length >> 2, length >> 1),
+        bytes.subarray(length >> 1),
+      ];
+
+      expect(toHex(hash(parts))).toBe(expected);
+      expect(toHex(hash(new Set(parts)))).toBe(expected);
+      expect(
+        toHex(
+          hash(
+            (function* () {
+              yield* parts;
+            })(),
+          ),
+        ),
+      ).toBe(expected);
+      expect(toHex(createHasher().update(parts).finalize())).toBe(expected);
+
+      const output = new Uint8Array(32);
+      hashInto(parts, output);
+      expect(toHex(output)).toBe(expected);
+    });
+  }
+
+  it("hashes an empty iterable as empty input", () => {
+    expect(toHex(hash([]))).toBe(toHex(hash(new Uint8Array(0))));
+  });
+
+  it("supports long outputs and every mode", () => {
+    const bytes = generateInput(9000);
+    const parts = [bytes.subarray(0, 3000), bytes.subarray(3000)];
+    const key = generateInput(32);
+
+    expect(hash(parts, 100)).toEqual(createHasher().update(bytes).finalize(100));
+    expect(keyedHash(key, parts)).toEqual(keyedHash(key, bytes));
+    expect(deriveKey("blake3-jit input test", parts)).toEqual(
+      deriveKey("blake3-jit input test", bytes),
+    );
+    expect(verifyKeyed(key, parts, createKeyed(key).update(bytes).finalize(16))).toBe(true);
+  });
+
+  it("is accepted by prepared derive_key contexts", () => {
+    const bytes = generateInput(9000);
+    const parts = [bytes.subarray(0, 3000), bytes.subarray(3000)];
+    const ctx = prepareDeriveKeyContext("blake3-jit input test");
+    const expected = toHex(deriveKey("blake3-jit input test", bytes, 48));
+
+    expect(toHex(ctx.deriveKey(parts, 48))).toBe(expected);
+    const output = new Uint8Array(48);
+    ctx.deriveKeyInto(parts, output, 48);
+    expect(toHex(output)).toBe(expected);
+  });
+
+  it("checks the output buffer size for hashInto", () => {
+    expect(() => hashInto([generateInput(10)], new Uint8Array(16))).toThrow(
+      "Output buffer too small",
+    );
+  });
+});
+
+describe("invalid input", () => {
+  it("throws a TypeError", () => {
+    for (const input of [null, undefined, 42, {}, true]) {
+      expect(() => hash(input as never)).toThrow(TypeError);
+      expect(() => createHasher().update(input as never)).toThrow(TypeError);
+    }
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for checksum manifest parsing, formatting and verification.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  hash,
+  keyedHash,
+  createHasher,
+  parseManifest,
+  formatManifest,
+  formatManifestLine,
+  verifyManifest,
+  type ManifestResult,
+  toHex,
+} from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+const FILES = new Map<string, Uint8Array>([
+  ["a.bin", generateInput(0)],
+  ["dir/b.bin", generateInput(1025)],
+  ["odd\\name\nwith\rescapes", generateInput(5000)],
+  ["c.bin", generateInput(70_000)],
+]);
+
+function readFromMap(files: Map<string, Uint8Array>) {
+  return (name: string) => files.get(name) ?? null;
+}
+
+describe("formatManifest", () => {
+  it("writes GNU and BSD lines", () => {
+    const digest = hash(generateInput(10));
+    const hex = toHex(digest);
+    expect(formatManifestLine("file.txt", digest)).toBe(`${hex}  file.txt\n`);
+    expect(formatManifestLine("file.txt", digest, "bsd")).toBe(`BLAKE3 (file.txt) = ${hex}\n`);
+  });
+
+  it("escapes backslashes, newlines and carriage returns", () => {
+    const digest = hash(generateInput(10));
+    const hex = toHex(digest);
+    expect(formatManifestLine("a\\b\nc\rd", digest)).toBe(`\\${hex}  a\\\\b\\nc\\rd\n`);
+    expect(formatManifestLine("a\nb", digest, "bsd")).toBe(`\\BLAKE3 (a\\nb) = ${hex}\n`);
+  });
+
+  it("round-trips through parseManifest", () => {
+    for (const format of ["gnu", "bsd"] as const) {
+      const entries = [...FILES].map(([name, data]) => ({ name, digest: hash(data) }));
+      const { entries: parsed, malformed } = parseManifest(formatManifest(entries, format));
+      expect(malformed).toEqual([]);
+      expect(parsed.map((e) => [e.name, toHex(e.digest), e.format, e.line])).toEqual(
+        entries.map((e, i) => [e.name, toHex(e.digest), format, i + 1]),
+      );
+    }
+  });
+});
+
+describe("parseManifest", () => {
+  it("accepts mixed formats, CRLF, uppercase hex and long digests", () => {
+    const long = createHasher().update(generateInput(100)).finalize(64);
+    const text =
+      `${toHex(hash(generateInput(1)))}  one\r\n` +
+      `\n` +
+      `BLAKE3 (two (2)) = ${toHex(long).toUpperCase()}\n` +
+      `${toHex(hash(generateInput(3)))}  name  with  spaces`;
+    const { entries, malformed } = parseManifest(text);
+    expect(malformed).toEqual([]);
+    expect(entries.map((e) => [e.name, e.format, e.line, e.digest.length])).toEqual([
+      ["one", "gnu", 1, 32],
+      ["two (2)", "bsd", 3, 64],
+      ["name  with  spaces", "gnu", 4, 32],
+    ]);
+    expect(entries[1].digest).toEqual(long);
+  });
+
+  it("reports malformed lines with their line numbers", () => {
+    const hex = toHex(hash(generateInput(1)));
+    const text = [
+      `${hex}  ok`,
+      "not a checksum",
+      `${hex} single-space`,
+      `${hex.slice(1)}  odd-length`,
+      `\\${hex}  bad\\escape`,
+      `BLAKE3 (x) = zz`,
+      `${hex}  `,
+    ].join("\n");
+    const { entries, malformed } = parseManifest(text);
+    expect(entries.map((e) => e.name)).toEqual(["ok"]);
+    expect(malformed.map((m) => m.line)).toEqual([2, 3, 4, 5, 6, 7]);
+    expect(malformed[0].text).toBe("not a checksum");
+  });
+});
+
+describe("verifyManifest", () => {
+  const manifest = formatManifest([...FILES].map(([name, data]) => ({ name, digest: hash(data) })));
+
+  it("verifies an intact manifest", async () => {
+    const { ok, results } = await verifyManifest(manifest, readFromMap(FILES));
+    expect(ok).toBe(true);
+    expect(results.map((r) => [r.status, r.name, r.line])).toEqual(
+      [...FILES.keys()].map((name, i) => ["ok", name, i + 1]),
+    );
+    expect(results[1].actual).toEqual(hash(FILES.get("dir/b.bin")!));
+  });
+
+  it("reports mismatched, missing and malformed entries in line order", async () => {
+    const files = new Map(FILES);
+    files.set("dir/b.bin", generateInput(1024));
+    files.delete("c.bin");
+    const text = `garbage\n${manifest}`;
+
+    const seen: ManifestResult[] = [];
+    const { ok, results } = await verifyManifest(text, readFromMap(files), {
+      onResult: (result) => seen.push(result),
+    });
+    expect(ok).toBe(false);
+    expect(results.map((r) => [r.line, r.status])).toEqual([
+      [1, "malformed"],
+      [2, "ok"],
+      [3, "mismatch"],
+      [4, "ok"],
+      [5, "missing"],
+    ]);
+    expect(seen).toEqual(results);
+    expect(results[0].text).toBe("garbage");
+    expect(results[2].actual).toEqual(hash(generateInput(1024)));
+    expect(results[4].error).toBeUndefined();
+  });
+
+  it("treats reader errors as missing files", async () => {
+    const error = new Error("EACCES");
+    const { results } = await verifyManifest(manifest, (name) => {
+      if (name === "a.bin") throw error;
+      return FILES.get(name);
+    });
+    expect(results[0]).toMatchObject({ status: "missing", name: "a.bin", error });
+    expect(results.slice(1).every((r) => r.status === "ok")).toBe(true);
+  });
+
+  it("hashes chunked and async contents", async () => {
+    const data = FILES.get("c.bin")!;
+    const text = formatManifestLine("c.bin", hash(data));
+    const parts = [data.subarray(0, 1000), data.subarray(1000, 40_000), data.subarray(40_000)];
+
+    expect((await verifyManifest(text, () => parts)).ok).toBe(true);
+    expect(
+      (
+        await verifyManifest(text, async () =>
+          (async function* () {
+            yield* parts;
+          })(),
+        )
+      ).ok,
+    ).toBe(true);
+    expect(
+      (
+        await verifyManifest(text, () =>
+          (async function* () {
+            yield parts[0];
+            throw new Error("read failed");
+          })(),
+        )
+      ).results[0].status,
+    ).toBe("missing");
+  });
+
+  it("verifies with the digest length of each entry", async () => {
+    const data = generateInput(3000);
+    const text = formatManifestLine("x", createHasher().update(data).finalize(100));
+    expect((await verifyManifest(text, () => data)).ok).toBe(true);
+  });
+
+  it("accepts a parsed manifest and a hashing mode", async () => {
+    const key = generateInput(32);
+    const data = generateInput(2000);
+    const parsed = parseManifest(formatManifestLine("x", keyedHash(key, data)));
+    expect((await verifyManifest(parsed, () => data, { key })).ok).toBe(true);
+    expect((await verifyManifest(parsed, () => data)).results[0].status).toBe("mismatch");
+  });
+});
@@ -14,7 +14,20 @@ import { fileURLToPath } from "node:url";
 
 import { describe, it, expect } from "vitest";
 
-import { hash, createKeyed, createDeriveKey, createHasher } from "../src/index.js";
+import {
+  hash,
+  hashInto,
+  keyedHash,
+  keyedHashInto,
+  deriveKey,
+  deriveKeyInto,
+  prepareDeriveKeyContext,
+  createKeyed,
+  createDeriveKey,
+  createHasher,
+  toHex,
+} from "../src/index.js";
+import { generateInput } from "./helpers.js";
 
 // Load official test vectors
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -30,22 +43,6 @@ const testVectors = JSON.parse(fs.readFileSync(testVectorsPath, "utf8")) as {
   }>;
 };
 
-// Generate input: repeating sequence 0, 1, 2, ..., 250, 0, 1, ...
-function generateInput(length: number): Uint8Array {
-  const buf = new Uint8Array(length);
-  for (let i = 0; i < length; i++) {
-    buf[i] = i % 251;
-  }
-  return buf;
-}
-
-// Convert Uint8Array to hex string
-function toHex(bytes: Uint8Array): string {
-  return Array.from(bytes)
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
-}
-
 // Convert ASCII string to Uint8Array (for key)
 function asciiToBytes(str: string): Uint8Array {
   const bytes = new Uint8Array(str.length);
@@ -103,6 +100,49 @@ describe("Official BLAKE3 Test Vectors", () => {
     }
   });
 
+  describe("One-shot hash()", () => {
+    for (const testCase of testVectors.cases) {
+      it(`input_len=${testCase.input_len}`, () => {
+        const input = generateInput(testCase.input_len);
+        // Full 131-byte output, past the single-block limit
+        const length = testCase.hash.length / 2;
+        expect(toHex(hash(input, length))).toBe(testCase.hash);
+        const output = new Uint8Array(length);
+        hashInto(input, output, length);
+        expect(toHex(output)).toBe(testCase.hash);
+      });
+    }
+  });
+
+  describe("One-shot keyedHash()", () => {
+    for (const testCase of testVectors.cases) {
+      it(`input_len=${testCase.input_len}`, () => {
+        const input = generateInput(testCase.input_len);
+        const length = testCase.keyed_hash.length / 2;
+        expect(toHex(keyedHash(TEST_KEY, input, length))).toBe(testCase.keyed_hash);
+        const output = new Uint8Array(length);
+        keyedHashInto(TEST_KEY, input, output, length);
+        expect(toHex(output)).toBe(testCase.keyed_hash);
+      });
+    }
+  });
+
+  describe("One-shot deriveKey()", () => {
+    for (const testCase of testVectors.cases) {
+      it(`input_len=${testCase.input_len}`, () => {
+        const input = generateInput(testCase.input_len);
+        const length = testCase.derive_key.length / 2;
+        expect(toHex(deriveKey(TEST_CONTEXT, input, length))).toBe(testCase.derive_key);
+        expect(toHex(prepareDeriveKeyContext(TEST_CONTEXT).deriveKey(input, length))).toBe(
+          testCase.derive_key,
+        );
+        const output = new Uint8Array(length);
+        deriveKeyInto(TEST_CONTEXT, input, output, length);
+        expect(toHex(output)).toBe(testCase.derive_key);
+      });
+    }
+  });
+
   describe("Extended Output (XOF mode)", () => {
     // Test that extended outputs match the full test vector hashes (131 bytes)
     for (const testCase of testVectors.cases) {
@@ -0,0 +1,3 @@
+// Runs the TypeScript worker entry under the oxc-node loader
+await import("@oxc-node/core/register");
+await import("../src/parallel-worker.ts");
@@ -0,0 +1,126 @@
+/**
+ * Tests for the parallel worker pool: results must equal hash() exactly.
+ */
+
+import { describe, it, expect, afterAll } from "vitest";
+
+import { hash, createHasher, createHashPool as createWebHashPool, toHex } from "../src/index.js";
+import { createHashPool, hashParallel } from "../src/node.js";
+import { generateInput } from "./helpers.js";
+
+const workerUrl = new URL("./parallel-worker.mjs", import.meta.url);
+
+describe("HashPool", () => {
+  const pool = createHashPool({ workers: 2, workerUrl });
+
+  afterAll(() => {
+    pool.terminate();
+  });
+
+  for (const length of [0, 1, 4096, 1024 * 1024, 1024 * 1024 + 1, 3 * 1024 * 1024 + 5000]) {
+    it(`hashes ${length} bytes`, async () => {
+      const input = generateInput(length);
+      expect(toHex(await pool.hash(input))).toBe(toHex(hash(input)));
+    });
+  }
+
+  it("hashes SharedArrayBuffer-backed input in place", async () => {
+    const length = 2 * 1024 * 1024 + 777;
+    const input = generateInput(length, new SharedArrayBuffer(length));
+    expect(toHex(await pool.hash(input))).toBe(toHex(hash(input)));
+  });
+
+  it("hashes views at an offset", async () => {
+    const backing = generateInput(2 * 1024 * 1024 + 100);
+    const input = backing.subarray(33, backing.length - 7);
+    expect(toHex(await pool.hash(input))).toBe(toHex(hash(input)));
+  });
+
+  it("supports extended output", async () => {
+    const input = generateInput(1536 * 1024);
+    expect(toHex(await pool.hash(input, 131))).toBe(
+      toHex(createHasher().update(input).finalize(131)),
+    );
+  });
+
+  it("runs concurrent hashes", async () => {
+    const a = generateInput(1024 * 1024 + 3);
+    const b = generateInput(2 * 1024 * 1024 + 9);
+    const [digestA, digestB] = await Promise.all([pool.hash(a), pool.hash(b)]);
+    expect(toHex(digestA)).toBe(toHex(hash(a)));
+    expect(toHex(digestB)).toBe(toHex(hash(b)));
+  });
+});
+
+describe("HashPool worker failures", () => {
+  const failingWorkerUrl = new URL("./failing-worker.mjs", import.meta.url);
+
+  function crashingInput(): Uint8Array {
+    const input = generateInput(2 * 1024 * 1024);
+    input[0] = 0xff;
+    return input;
+  }
+
+  it("rejects with the worker's error and replaces the worker", async () => {
+    const pool = createHashPool({ workers: 1, workerUrl: failingWorkerUrl });
+    try {
+      await expect(pool.hash(crashingInput())).rejects.toThrow("worker crashed");
+      await expect(pool.hash(crashingInput())).rejects.toThrow("worker crashed");
+
+      const input = generateInput(1024 * 1024 + 5);
+      expect(toHex(await pool.hash(input))).toBe(toHex(hash(input)));
+    } finally {
+      pool.terminate();
+    }
+  });
+
+  it("lets other hashes finish", async () => {
+    const pool = createHashPool({ workers: 2, workerUrl: failingWorkerUrl });
+    try {
+      const input = generateInput(3 * 1024 * 1024 + 7);
+      const [failed, ok] = await Promise.allSettled([pool.hash(crashingInput()), pool.hash(input)]);
+      expect(failed.status).toBe("rejected");
+      expect(ok).toEqual({ status: "fulfilled", value: hash(input) });
+    } finally {
+      pool.terminate();
+    }
+  });
+});
+
+describe("hashParallel", () => {
+  it("hashes with a temporary pool", async () => {
+    const input = generateInput(1024 * 1024 + 1024);
+    const digest = await hashParallel(input, 32, { workers: 1, workerUrl });
+    expect(toHex(digest)).toBe(toHex(hash(input)));
+  });
+
+  it("rejects pending hashes on terminate", async () => {
+    const pool = createHashPool({ workers: 1, workerUrl });
+    const pending = pool.hash(generateInput(2 * 1024 * 1024));
+    // Let the pool start before terminating it
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    pool.terminate();
+    await expect(pending).rejects.toThrow(/terminated/);
+    await expect(pool.hash(new Uint8Array(1))).rejects.toThrow(/terminated/);
+  });
+
+  it("rejects a hash started just before terminate on a running pool", async () => {
+    const pool = createHashPool({ workers: 1, workerUrl });
+    const input = generateInput(1024 * 1024);
+    expect(toHex(await pool.hash(input))).toBe(toHex(hash(input)));
+
+    const pending = pool.hash(input);
+    pool.terminate();
+    await expect(pending).rejects.toThrow(/terminated/);
+  });
+
+  it("needs Web Workers in the platform-neutral pool", async () => {
+    const pool = createWebHashPool({ workers: 1, workerUrl });
+    await expect(pool.hash(generateInput(1024 * 1024))).rejects.toThrow(/blake3-jit\/node/);
+    expect(toHex(await pool.hash(generateInput(100)))).toBe(toHex(hash(generateInput(100))));
+  });
+
+  it("validates the worker count", () => {
+    expect(() => createHashPool({ workers: 0 })).toThrow(/Invalid worker count/);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for chunk inclusion proofs.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { hash, proveChunk, verifyChunkProof } from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+function chunkOf(input: Uint8Array, index: number): Uint8Array {
+  return input.subarray(index * 1024, (index + 1) * 1024);
+}
+
+describe("Chunk inclusion proofs", () => {
+  for (const length of [0, 1, 1024, 1025, 2048, 3073, 5000, 8192, 31744, 102401]) {
+    it(`proves every chunk of ${length} bytes`, () => {
+      const input = generateInput(length);
+      const root = hash(input);
+      const chunks = Math.max(1, Math.ceil(length / 1024));
+      for (let i = 0; i < chunks; i++) {
+        const proof = proveChunk(input, i);
+        expect(verifyChunkProof(root, i, chunkOf(input, i), proof, length)).toBe(true);
+      }
+    });
+  }
+
+  it("has one sibling per tree level", () => {
+    const input = generateInput(5000);
+    // 5 chunks: the last chunk is the root's right child
+    expect(proveChunk(input, 4).length).toBe(32);
+    expect(proveChunk(input, 0).length).toBe(3 * 32);
+    expect(proveChunk(generateInput(1000), 0).length).toBe(0);
+  });
+
+  it("rejects a modified chunk", () => {
+    const input = generateInput(10000);
+    const proof = proveChunk(input, 3);
+    const chunk = chunkOf(input, 3).slice();
+    chunk[10] ^= 1;
+    expect(verifyChunkProof(hash(input), 3, chunk, proof, input.length)).toBe(false);
+  });
+
+  it("rejects a modified proof", () => {
+    const input = generateInput(10000);
+    const proof = proveChunk(input, 3);
+    for (let i = 0; i < proof.length; i += 32) {
+      const corrupted = proof.slice();
+      corrupted[i] ^= 1;
+      expect(verifyChunkProof(hash(input), 3, chunkOf(input, 3), corrupted, input.length)).toBe(
+        false,
+      );
+    }
+  });
+
+  it("rejects the wrong index, length or root", () => {
+    const input = generateInput(10000);
+    const root = hash(input);
+    const proof = proveChunk(input, 3);
+    const chunk = chunkOf(input, 3);
+    expect(verifyChunkProof(root, 2, chunk, proof, input.length)).toBe(false);
+    expect(verifyChunkProof(root, 3, chunk, proof, 4096)).toBe(false);
+    expect(verifyChunkProof(hash(chunk), 3, chunk, proof, input.length)).toBe(false);
+    expect(verifyChunkProof(root, 3, chunk, proof.subarray(32), input.length)).toBe(false);
+    expect(verifyChunkProof(root, 3, chunk.subarray(1), proof, input.length)).toBe(false);
+  });
+
+  it("validates arguments", () => {
+    const input = generateInput(3000);
+    expect(() => proveChunk(input, 3)).toThrow(/out of range/);
+    expect(() => proveChunk(input, -1)).toThrow(/out of range/);
+    expect(() => verifyChunkProof(new Uint8Array(31), 0, input, new Uint8Array(0), 3000)).toThrow(
+      /32 bytes/,
+    );
+    expect(() => verifyChunkProof(hash(input), 0, input, new Uint8Array(0), -1)).toThrow(
+      /Invalid total length/,
+    );
+  });
+});
@@ -8,21 +8,8 @@
 
 import { describe, it, expect } from "vitest";
 
-import { hash, createHasher, createKeyed, createDeriveKey, Hasher } from "../src/index.js";
-
-function bytesToHex(bytes: Uint8Array): string {
-  return Array.from(bytes)
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
-}
-
-function generateInput(length: number): Uint8Array {
-  const input = new Uint8Array(length);
-  for (let i = 0; i < length; i++) {
-    input[i] = i % 251;
-  }
-  return input;
-}
+import { hash, createHasher, createKeyed, createDeriveKey, Hasher, toHex } from "../src/index.js";
+import { generateInput } from "./helpers.js";
 
 describe("Hasher.reset()", () => {
   it("matches a fresh Hasher after reset for small inputs", () => {
@@ -32,12 +19,12 @@ describe("Hasher.reset()", () => {
     const hasher = createHasher();
     hasher.update(a);
     const first = hasher.finalize();
-    expect(bytesToHex(first)).toBe(bytesToHex(hash(a)));
+    expect(toHex(first)).toBe(toHex(hash(a)));
 
     hasher.reset();
     hasher.update(b);
     const second = hasher.finalize();
-    expect(bytesToHex(second)).toBe(bytesToHex(hash(b)));
+    expect(toHex(second)).toBe(toHex(hash(b)));
   });
 
   it("matches a fresh Hasher after reset across chunk boundaries", () => {
@@ -48,11 +35,11 @@ describe("Hasher.reset()", () => {
 
     const hasher = createHasher();
     hasher.update(first);
-    expect(bytesToHex(hasher.finalize())).toBe(bytesToHex(hash(first)));
+    expect(toHex(hasher.finalize())).toBe(toHex(hash(first)));
 
     hasher.reset();
     hasher.update(second);
-    expect(bytesToHex(hasher.finalize())).toBe(bytesToHex(hash(second)));
+    expect(toHex(hasher.finalize())).toBe(toHex(hash(second)));
   });
 
   it("preserves keyed-hash flags across reset", () => {
@@ -65,12 +52,12 @@ describe("Hasher.reset()", () => {
     const keyed = createKeyed(key);
     keyed.update(m1);
     const mac1 = keyed.finalize();
-    expect(bytesToHex(mac1)).toBe(bytesToHex(Hasher.newKeyed(key).update(m1).finalize()));
+    expect(toHex(mac1)).toBe(toHex(Hasher.newKeyed(key).update(m1).finalize()));
 
     keyed.reset();
     keyed.update(m2);
     const mac2 = keyed.finalize();
-    expect(bytesToHex(mac2)).toBe(bytesToHex(Hasher.newKeyed(key).update(m2).finalize()));
+    expect(toHex(mac2)).toBe(toHex(Hasher.newKeyed(key).update(m2).finalize()));
   });
 
   it("preserves derive_key context across reset", () => {
@@ -81,16 +68,12 @@ describe("Hasher.reset()", () => {
     const kdf = createDeriveKey(context);
     kdf.update(ikm1);
     const derived1 = kdf.finalize(64);
-    expect(bytesToHex(derived1)).toBe(
-      bytesToHex(createDeriveKey(context).update(ikm1).finalize(64)),
-    );
+    expect(toHex(derived1)).toBe(toHex(createDeriveKey(context).update(ikm1).finalize(64)));
 
     kdf.reset();
     kdf.update(ikm2);
     const derived2 = kdf.finalize(64);
-    expect(bytesToHex(derived2)).toBe(
-      bytesToHex(createDeriveKey(context).update(ikm2).finalize(64)),
-    );
+    expect(toHex(derived2)).toBe(toHex(createDeriveKey(context).update(ikm2).finalize(64)));
   });
 
   it("returns `this` for chaining", () => {
@@ -107,7 +90,7 @@ describe("Hasher.reset()", () => {
       const input = generateInput(i * 17 + 1);
       hasher.reset();
       hasher.update(input);
-      expect(bytesToHex(hasher.finalize())).toBe(bytesToHex(hash(input)));
+      expect(toHex(hasher.finalize())).toBe(toHex(hash(input)));
     }
   });
 });
@@ -127,6 +110,6 @@ describe("ChunkState unaligned input", () => {
 
     // Compare against a fresh aligned copy.
     const aligned = new Uint8Array(misaligned);
-    expect(bytesToHex(digest)).toBe(bytesToHex(hash(aligned)));
+    expect(toHex(digest)).toBe(toHex(hash(aligned)));
   });
 });
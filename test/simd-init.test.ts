@@ -0,0 +1,35 @@
+/**
+ * Tests for async SIMD initialization (initSimd) and the status reported by
+ * warmupSimd() and getSimdStatus().
+ *
+ * Runs in its own module instance, so SIMD starts uninitialized here.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { hash, initSimd, warmupSimd, getSimdStatus, createHasher, toHex } from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+describe("initSimd()", () => {
+  it("initializes asynchronously, falling back to JS while pending", async () => {
+    expect(getSimdStatus()).toBe("uninitialized");
+    const input = generateInput(64 * 1024 + 3);
+
+    const first = initSimd();
+    const second = initSimd();
+    expect(getSimdStatus()).toBe("pending");
+
+    // Does not block on (or race) the pending async initialization
+    expect(warmupSimd()).toBe("pending");
+    const duringInit = toHex(hash(input));
+
+    expect(await first).toBe(true);
+    expect(await second).toBe(true);
+    expect(getSimdStatus()).toBe("ready");
+    expect(warmupSimd()).toBe("ready");
+
+    expect(toHex(hash(input))).toBe(duringInit);
+    expect(toHex(createHasher().update(input).finalize())).toBe(duringInit);
+    expect(await initSimd()).toBe(true);
+  });
+});
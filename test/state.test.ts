@@ -0,0 +1,109 @@
+/**
+ * Tests for Hasher.exportState() / Hasher.importState().
+ *
+ * Workload context: multi-GB uploads arrive over several HTTP requests,
+ * possibly handled by different processes, so hashing must be resumable
+ * from serialized state.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { hash, createHasher, createKeyed, createDeriveKey, Hasher, toHex } from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+describe("Hasher state export/import", () => {
+  const input = generateInput(70 * 1024 + 11);
+
+  // Includes block, chunk and SIMD chunk-group boundaries
+  const splits = [0, 1, 63, 64, 65, 1024, 1025, 2048, 3000, 4097, 33 * 1024, 64 * 1024 + 1];
+
+  for (const split of splits) {
+    it(`resumes hashing after ${split} bytes`, () => {
+      const state = createHasher().update(input.subarray(0, split)).exportState();
+      const resumed = Hasher.importState(state).update(input.subarray(split));
+      expect(toHex(resumed.finalize())).toBe(toHex(hash(input)));
+    });
+  }
+
+  it("preserves keyed and derive_key modes", () => {
+    const key = new Uint8Array(32).fill(0xa5);
+    const keyedState = createKeyed(key).update(input.subarray(0, 5000)).exportState();
+    expect(toHex(Hasher.importState(keyedState).update(input.subarray(5000)).finalize())).toBe(
+      toHex(createKeyed(key).update(input).finalize()),
+    );
+
+    const deriveState = createDeriveKey("state test").update(input.subarray(0, 777)).exportState();
+    expect(toHex(Hasher.importState(deriveState).update(input.subarray(777)).finalize())).toBe(
+      toHex(createDeriveKey("state test").update(input).finalize()),
+    );
+  });
+
+  it("round-trips byte-for-byte and accepts unaligned views", () => {
+    const state = createHasher().update(input.subarray(0, 9999)).exportState();
+    const copy = new Uint8Array(state.length + 1);
+    copy.set(state, 1);
+    const restored = Hasher.importState(copy.subarray(1));
+    expect(toHex(restored.exportState())).toBe(toHex(state));
+  });
+
+  it("does not consume the exporting hasher", () => {
+    const hasher = createHasher().update(input.subarray(0, 3000));
+    hasher.exportState();
+    expect(toHex(hasher.update(input.subarray(3000)).finalize())).toBe(toHex(hash(input)));
+  });
+
+  describe("validation", () => {
+    // 3 full chunks + 100 bytes: chunk counter 3, two CVs on the stack
+    const valid = createHasher()
+      .update(input.subarray(0, 3 * 1024 + 100))
+      .exportState();
+
+    function mutate(fn: (state: Uint8Array) => Uint8Array | void): Uint8Array {
+      const state = new Uint8Array(valid);
+      return fn(state) ?? state;
+    }
+
+    it("accepts the unmodified state", () => {
+      expect(() => Hasher.importState(valid)).not.toThrow();
+    });
+
+    it("rejects truncated states", () => {
+      expect(() => Hasher.importState(valid.subarray(0, 100))).toThrow(/at least/);
+      expect(() => Hasher.importState(valid.subarray(0, valid.length - 1))).toThrow(/expected/);
+    });
+
+    it("rejects unknown versions", () => {
+      expect(() => Hasher.importState(mutate((s) => void (s[0] = 2)))).toThrow(/version/);
+    });
+
+    it("rejects a CV stack that does not match the chunk counter", () => {
+      // Chunk counter 4 needs one stacked CV, not two
+      expect(() => Hasher.importState(mutate((s) => void (s[8] = 4)))).toThrow(/CV stack/);
+      // Stack length 3 with a matching byte length but counter 3
+      const longer = mutate((s) => {
+        const out = new Uint8Array(s.length + 32);
+        out.set(s);
+        out[1] = 3;
+        return out;
+      });
+      expect(() => Hasher.importState(longer)).toThrow(/CV stack/);
+    });
+
+    it("rejects inconsistent chunk positions", () => {
+      expect(() => Hasher.importState(mutate((s) => void (s[2] = 65)))).toThrow();
+      expect(() => Hasher.importState(mutate((s) => void (s[3] = 16)))).toThrow();
+      expect(() => Hasher.importState(mutate((s) => void (s[2] = 0)))).toThrow();
+    });
+
+    it("rejects key words that do not match the flags", () => {
+      // Regular hash state (flags 0) with a key other than the IV
+      expect(() => Hasher.importState(mutate((s) => void (s[16] ^= 1)))).toThrow(/key words/);
+    });
+
+    it("rejects unknown flags and stale block bytes", () => {
+      expect(() => Hasher.importState(mutate((s) => void (s[4] = 8)))).toThrow(/flags/);
+      // 100 bytes buffered: block holds 36 bytes, byte 80 + 36 must be zero
+      expect(() => Hasher.importState(mutate((s) => void (s[80 + 36] = 1)))).toThrow(/non-zero/);
+    });
+  });
+});
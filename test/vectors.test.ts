@@ -10,23 +10,18 @@
 
 import { describe, it, expect } from "vitest";
 
-import { hash, createKeyed, createDeriveKey, createHasher } from "../src/index.js";
-
-// Helper to convert Uint8Array to hex string
-function bytesToHex(bytes: Uint8Array): string {
-  return Array.from(bytes)
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
-}
-
-// Generate test input: bytes 0, 1, 2, ..., n-1 (mod 251)
-function generateInput(length: number): Uint8Array {
-  const input = new Uint8Array(length);
-  for (let i = 0; i < length; i++) {
-    input[i] = i % 251;
-  }
-  return input;
-}
+import {
+  hash,
+  keyedHash,
+  keyedHashInto,
+  deriveKey,
+  deriveKeyInto,
+  createKeyed,
+  createDeriveKey,
+  createHasher,
+  toHex,
+} from "../src/index.js";
+import { generateInput } from "./helpers.js";
 
 // Official BLAKE3 test key (32 bytes, ASCII "whats theEde Code for a series")
 const TEST_KEY = new Uint8Array([
@@ -64,7 +59,7 @@ describe("BLAKE3 Hash Function", () => {
       it(`should hash ${vec.input_len} bytes correctly`, () => {
         const input = generateInput(vec.input_len);
         const result = hash(input);
-        expect(bytesToHex(result)).toBe(vec.hash);
+        expect(toHex(result)).toBe(vec.hash);
       });
     }
   });
@@ -72,7 +67,7 @@ describe("BLAKE3 Hash Function", () => {
   describe("Empty Input", () => {
     it("should hash empty input correctly", () => {
       const result = hash(new Uint8Array(0));
-      expect(bytesToHex(result)).toBe(
+      expect(toHex(result)).toBe(
         "af1349b9f5f9a1a6a0404dea36dcc9499bcb25c9adc112b7cc9a93cae41f3262",
       );
     });
@@ -81,7 +76,7 @@ describe("BLAKE3 Hash Function", () => {
   describe("Single Byte", () => {
     it("should hash single byte correctly", () => {
       const result = hash(new Uint8Array([0]));
-      expect(bytesToHex(result)).toBe(
+      expect(toHex(result)).toBe(
         "2d3adedff11b61f14c886e35afa036736dcd87a74d27b5c1510225d0f592e213",
       );
     });
@@ -97,7 +92,7 @@ describe("BLAKE3 Hash Function", () => {
       hasher.update(input.subarray(512));
       const incremental = hasher.finalize();
 
-      expect(bytesToHex(incremental)).toBe(bytesToHex(oneShot));
+      expect(toHex(incremental)).toBe(toHex(oneShot));
     });
 
     it("should handle many small updates", () => {
@@ -110,7 +105,7 @@ describe("BLAKE3 Hash Function", () => {
       }
       const incremental = hasher.finalize();
 
-      expect(bytesToHex(incremental)).toBe(bytesToHex(oneShot));
+      expect(toHex(incremental)).toBe(toHex(oneShot));
     });
   });
 
@@ -134,7 +129,7 @@ describe("BLAKE3 Hash Function", () => {
       const result64 = hash(input, 64);
 
       // First 32 bytes should match
-      expect(bytesToHex(result64.subarray(0, 32))).toBe(bytesToHex(result32));
+      expect(toHex(result64.subarray(0, 32))).toBe(toHex(result32));
     });
   });
 
@@ -149,7 +144,7 @@ describe("BLAKE3 Hash Function", () => {
 
       expect(chunk1.length).toBe(32);
       expect(chunk2.length).toBe(32);
-      expect(bytesToHex(chunk1)).not.toBe(bytesToHex(chunk2));
+      expect(toHex(chunk1)).not.toBe(toHex(chunk2));
     });
   });
 
@@ -188,13 +183,39 @@ describe("BLAKE3 Keyed Hash (MAC)", () => {
     const result1 = createKeyed(key1).update(input).finalize();
     const result2 = createKeyed(key2).update(input).finalize();
 
-    expect(bytesToHex(result1)).not.toBe(bytesToHex(result2));
+    expect(toHex(result1)).not.toBe(toHex(result2));
   });
 
   it("should require 32-byte key", () => {
     expect(() => createKeyed(new Uint8Array(16))).toThrow();
     expect(() => createKeyed(new Uint8Array(64))).toThrow();
   });
+
+  it("should match createKeyed() in one shot", () => {
+    for (const length of [0, 3, 1024, 5000, 64 * 1024 + 1]) {
+      const input = generateInput(length);
+      const expected = toHex(createKeyed(key).update(input).finalize());
+      expect(toHex(keyedHash(key, input))).toBe(expected);
+
+      const output = new Uint8Array(32);
+      keyedHashInto(key, input, output);
+      expect(toHex(output)).toBe(expected);
+    }
+  });
+
+  it("should accept a key view with an odd byteOffset", () => {
+    const raw = new Uint8Array(33);
+    raw.set(key, 1);
+    const input = generateInput(100);
+    expect(toHex(keyedHash(raw.subarray(1), input))).toBe(toHex(keyedHash(key, input)));
+  });
+
+  it("should require 32-byte key in one shot", () => {
+    expect(() => keyedHash(new Uint8Array(16), new Uint8Array(1))).toThrow();
+    expect(() =>
+      keyedHashInto(new Uint8Array(64), new Uint8Array(1), new Uint8Array(32)),
+    ).toThrow();
+  });
 });
 
 describe("BLAKE3 Key Derivation", () => {
@@ -211,7 +232,7 @@ describe("BLAKE3 Key Derivation", () => {
     const key1 = createDeriveKey("context 1").update(input).finalize();
     const key2 = createDeriveKey("context 2").update(input).finalize();
 
-    expect(bytesToHex(key1)).not.toBe(bytesToHex(key2));
+    expect(toHex(key1)).not.toBe(toHex(key2));
   });
 
   it("should produce different keys for different inputs", () => {
@@ -224,7 +245,24 @@ describe("BLAKE3 Key Derivation", () => {
       .update(new Uint8Array([2]))
       .finalize();
 
-    expect(bytesToHex(key1)).not.toBe(bytesToHex(key2));
+    expect(toHex(key1)).not.toBe(toHex(key2));
+  });
+
+  it("should match createDeriveKey() in one shot", () => {
+    const context = "my-app v1 encryption key";
+    for (const length of [0, 4, 1024, 4096, 70 * 1024]) {
+      const input = generateInput(length);
+      const expected = toHex(createDeriveKey(context).update(input).finalize(64));
+      expect(toHex(deriveKey(context, input, 64))).toBe(expected);
+
+      const output = new Uint8Array(64);
+      deriveKeyInto(context, input, output, 64);
+      expect(toHex(output)).toBe(expected);
+    }
+  });
+
+  it("should reject a too-small output buffer", () => {
+    expect(() => deriveKeyInto("ctx", new Uint8Array(1), new Uint8Array(16))).toThrow();
   });
 });
 
@@ -233,7 +271,7 @@ describe("Consistency Tests", () => {
     const input = new Uint8Array([1, 2, 3, 4, 5]);
     const result1 = hash(input);
     const result2 = hash(input);
-    expect(bytesToHex(result1)).toBe(bytesToHex(result2));
+    expect(toHex(result1)).toBe(toHex(result2));
   });
 
   it("should handle Uint8Array from different buffer", () => {
@@ -0,0 +1,85 @@
+/**
+ * Tests for keyed hash (MAC) verification.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { keyedHash, createKeyed, createHasher, hash, verifyKeyed } from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+const KEY = generateInput(32).map((b) => b ^ 0xa5);
+const MESSAGE_LENGTHS = [0, 1, 64, 1024, 1025, 8192, 100_000];
+const TAG_LENGTHS = [1, 16, 32, 33, 64, 65, 200];
+
+function keyedTag(message: Uint8Array, length: number): Uint8Array {
+  return createKeyed(KEY).update(message).finalize(length);
+}
+
+describe("verifyKeyed", () => {
+  for (const length of MESSAGE_LENGTHS) {
+    it(`accepts the tag of a ${length}-byte message`, () => {
+      const message = generateInput(length);
+      expect(verifyKeyed(KEY, message, keyedHash(KEY, message))).toBe(true);
+    });
+  }
+
+  for (const tagLength of TAG_LENGTHS) {
+    it(`verifies ${tagLength}-byte tags`, () => {
+      const message = generateInput(3000);
+      const tag = keyedTag(message, tagLength);
+      expect(verifyKeyed(KEY, message, tag)).toBe(true);
+
+      const forged = tag.slice();
+      forged[tagLength - 1] ^= 0x80;
+      expect(verifyKeyed(KEY, message, forged)).toBe(false);
+    });
+  }
+
+  it("rejects a tag for a different message or key", () => {
+    const message = generateInput(500);
+    const tag = keyedHash(KEY, message);
+    expect(verifyKeyed(KEY, generateInput(501), tag)).toBe(false);
+    expect(verifyKeyed(generateInput(32), message, tag)).toBe(false);
+    expect(verifyKeyed(KEY, message, hash(message))).toBe(false);
+  });
+
+  it("rejects an empty tag", () => {
+    expect(verifyKeyed(KEY, generateInput(10), new Uint8Array(0))).toBe(false);
+  });
+
+  it("throws on an invalid key", () => {
+    expect(() => verifyKeyed(new Uint8Array(16), generateInput(10), new Uint8Array(32))).toThrow();
+  });
+});
+
+describe("Hasher.verify", () => {
+  it("verifies a keyed hasher's tag", () => {
+    const message = generateInput(10_000);
+    const hasher = createKeyed(KEY).update(message);
+    for (const tagLength of TAG_LENGTHS) {
+      const tag = keyedTag(message, tagLength);
+      expect(hasher.verify(tag)).toBe(true);
+      tag[0] ^= 1;
+      expect(hasher.verify(tag)).toBe(false);
+    }
+  });
+
+  it("is non-destructive", () => {
+    const first = generateInput(100);
+    const second = generateInput(2000);
+    const hasher = createKeyed(KEY).update(first);
+    expect(hasher.verify(keyedTag(first, 32))).toBe(true);
+
+    hasher.update(second);
+    const both = new Uint8Array(first.length + second.length);
+    both.set(first);
+    both.set(second, first.length);
+    expect(hasher.verify(keyedTag(both, 32))).toBe(true);
+  });
+
+  it("works for every hashing mode", () => {
+    const message = generateInput(4097);
+    expect(createHasher().update(message).verify(hash(message))).toBe(true);
+    expect(createHasher().update(message).verify(new Uint8Array(0))).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for the WHATWG stream helpers.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { hash, keyedHash, deriveKey, Blake3Stream, digestStream, toHex } from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+// ReadableStream yielding `input` in pieces of `pieceLen` bytes
+function source(input: Uint8Array, pieceLen: number): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= input.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(input.slice(offset, offset + pieceLen));
+      offset += pieceLen;
+    },
+  });
+}
+
+async function collect(readable: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const parts: number[] = [];
+  const reader = readable.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(...value);
+  }
+  return new Uint8Array(parts);
+}
+
+describe("Blake3Stream", () => {
+  for (const length of [0, 1, 1024, 5000, 70000]) {
+    it(`hashes and passes through ${length} bytes`, async () => {
+      const input = generateInput(length);
+      const hashing = new Blake3Stream();
+      const output = await collect(source(input, 1000).pipeThrough(hashing));
+
+      expect(toHex(output)).toBe(toHex(input));
+      expect(toHex(await hashing.digest)).toBe(toHex(hash(input)));
+    });
+  }
+
+  it("supports keyed hashing and key derivation", async () => {
+    const key = generateInput(32);
+    const input = generateInput(9000);
+
+    const keyed = new Blake3Stream({ key });
+    await collect(source(input, 4096).pipeThrough(keyed));
+    expect(toHex(await keyed.digest)).toBe(toHex(keyedHash(key, input)));
+
+    const derived = new Blake3Stream({ context: "blake3-jit test", outputLength: 64 });
+    await collect(source(input, 4096).pipeThrough(derived));
+    expect(toHex(await derived.digest)).toBe(toHex(deriveKey("blake3-jit test", input, 64)));
+  });
+
+  it("rejects the digest when the source errors", async () => {
+    const failing = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(generateInput(100));
+      },
+      pull(controller) {
+        controller.error(new Error("source failed"));
+      },
+    });
+    const hashing = new Blake3Stream();
+    await expect(collect(failing.pipeThrough(hashing))).rejects.toThrow("source failed");
+    await expect(hashing.digest).rejects.toThrow("source failed");
+  });
+
+  it("rejects the digest when the writable side is aborted", async () => {
+    const hashing = new Blake3Stream();
+    const writer = hashing.writable.getWriter();
+    await writer.abort(new Error("aborted"));
+    await expect(hashing.digest).rejects.toThrow("aborted");
+  });
+
+  it("rejects the digest when the readable side is cancelled", async () => {
+    const hashing = new Blake3Stream();
+    await hashing.readable.cancel(new Error("cancelled"));
+    await expect(hashing.digest).rejects.toThrow("cancelled");
+  });
+
+  it("rejects the digest on an invalid chunk", async () => {
+    const invalid = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(42 as never);
+        controller.close();
+      },
+    });
+    const hashing = new Blake3Stream();
+    await expect(collect(invalid.pipeThrough(hashing))).rejects.toThrow(TypeError);
+    await expect(hashing.digest).rejects.toThrow(TypeError);
+  });
+
+  it("does not report an unobserved rejection", async () => {
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => unhandled.push(reason);
+    process.on("unhandledRejection", onUnhandled);
+    try {
+      await new Blake3Stream().readable.cancel(new Error("cancelled"));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    } finally {
+      process.off("unhandledRejection", onUnhandled);
+    }
+    expect(unhandled).toEqual([]);
+  });
+
+  it("validates options", () => {
+    expect(() => new Blake3Stream({ key: new Uint8Array(32), context: "x" })).toThrow(
+      /mutually exclusive/,
+    );
+  });
+});
+
+describe("digestStream", () => {
+  it("hashes a stream", async () => {
+    const input = generateInput(100000);
+    expect(toHex(await digestStream(source(input, 3333)))).toBe(toHex(hash(input)));
+  });
+
+  it("hashes an empty stream", async () => {
+    expect(toHex(await digestStream(source(new Uint8Array(0), 1)))).toBe(
+      toHex(hash(new Uint8Array(0))),
+    );
+  });
+
+  it("supports options", async () => {
+    const key = generateInput(32);
+    const input = generateInput(5000);
+    expect(toHex(await digestStream(source(input, 700), { key }))).toBe(
+      toHex(keyedHash(key, input)),
+    );
+  });
+
+  it("hashes a Blob stream", async () => {
+    const input = generateInput(20000);
+    const blob = new Blob([input as Uint8Array<ArrayBuffer>]);
+    expect(toHex(await digestStream(blob.stream()))).toBe(toHex(hash(input)));
+  });
+});
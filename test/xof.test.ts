@@ -0,0 +1,139 @@
+/**
+ * Tests for XofReader random access: seek(), position and readInto().
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { describe, it, expect } from "vitest";
+
+import { createHasher, createKeyed, toHex } from "../src/index.js";
+import { generateInput } from "./helpers.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const testVectors = JSON.parse(
+  fs.readFileSync(path.join(__dirname, "test_vectors.json"), "utf8"),
+) as { key: string; cases: Array<{ input_len: number; hash: string; keyed_hash: string }> };
+
+describe("XofReader", () => {
+  const input = generateInput(3000);
+  const full = createHasher().update(input).finalizeXof().read(1000);
+
+  it("tracks position across reads", () => {
+    const xof = createHasher().update(input).finalizeXof();
+    expect(xof.position).toBe(0);
+    xof.read(10);
+    expect(xof.position).toBe(10);
+    xof.readInto(new Uint8Array(100));
+    expect(xof.position).toBe(110);
+  });
+
+  it("reads arbitrary windows after seek()", () => {
+    const xof = createHasher().update(input).finalizeXof();
+    for (const [start, length] of [
+      [0, 1],
+      [63, 2],
+      [64, 64],
+      [100, 300],
+      [999, 1],
+      [5, 0],
+    ]) {
+      expect(toHex(xof.seek(start).read(length))).toBe(toHex(full.subarray(start, start + length)));
+      expect(xof.position).toBe(start + length);
+    }
+  });
+
+  it("can seek backwards and re-read", () => {
+    const xof = createHasher().update(input).finalizeXof();
+    const first = xof.read(200);
+    xof.seek(0);
+    expect(toHex(xof.read(200))).toBe(toHex(first));
+  });
+
+  it("reads into a sub-range of the target", () => {
+    const xof = createHasher().update(input).finalizeXof();
+    const target = new Uint8Array(50).fill(0xee);
+    xof.seek(30).readInto(target, 5, 40);
+    expect(toHex(target.subarray(5, 45))).toBe(toHex(full.subarray(30, 70)));
+    expect(target[4]).toBe(0xee);
+    expect(target[45]).toBe(0xee);
+  });
+
+  it("matches the official extended outputs at every offset", () => {
+    const key = new TextEncoder().encode(testVectors.key);
+    for (const testCase of testVectors.cases.filter((c) => c.input_len === 1023)) {
+      const expected = testCase.keyed_hash;
+      const xof = createKeyed(key).update(generateInput(testCase.input_len)).finalizeXof();
+      const out = new Uint8Array(1);
+      for (let i = expected.length / 2 - 1; i >= 0; i--) {
+        xof.seek(i).readInto(out);
+        expect(toHex(out)).toBe(expected.slice(i * 2, i * 2 + 2));
+      }
+    }
+  });
+
+  it("supports positions far beyond 32-bit block counters", () => {
+    const xof = createHasher().update(input).finalizeXof();
+    const offset = 2 ** 40 + 17; // 1 TiB onward
+    const window = xof.seek(offset).read(100);
+    expect(xof.position).toBe(offset + 100);
+    expect(toHex(xof.seek(offset + 50).read(50))).toBe(toHex(window.subarray(50)));
+    expect(toHex(window.subarray(0, 32))).not.toBe(toHex(full.subarray(17, 49)));
+  });
+
+  it("rejects invalid positions and ranges", () => {
+    const xof = createHasher().finalizeXof();
+    expect(() => xof.seek(-1)).toThrow();
+    expect(() => xof.seek(1.5)).toThrow();
+    expect(() => xof.readInto(new Uint8Array(10), 5, 6)).toThrow();
+  });
+});
+
+describe("XofReader SIMD output", () => {
+  const input = generateInput(5000);
+
+  // Reads of fewer than 16 blocks always use the scalar per-block path
+  function readScalar(start: number, length: number): Uint8Array {
+    const xof = createKeyed(new Uint8Array(32).fill(7)).update(input).finalizeXof();
+    const out = new Uint8Array(length);
+    xof.seek(start);
+    for (let i = 0; i < length; i += 100) {
+      xof.readInto(out, i, Math.min(100, length - i));
+    }
+    return out;
+  }
+
+  function readLarge(start: number, length: number): Uint8Array {
+    const xof = createKeyed(new Uint8Array(32).fill(7)).update(input).finalizeXof();
+    return xof.seek(start).read(length);
+  }
+
+  for (const [start, length] of [
+    [0, 1024],
+    [0, 1025],
+    [0, 10_000],
+    [64, 1088],
+    [5, 5000],
+    [1000, 3333],
+  ]) {
+    it(`matches scalar output for ${length} bytes at offset ${start}`, () => {
+      expect(toHex(readLarge(start, length))).toBe(toHex(readScalar(start, length)));
+    });
+  }
+
+  it("carries block counters past 2^32", () => {
+    const start = (2 ** 32 - 2) * 64;
+    expect(toHex(readLarge(start, 2048))).toBe(toHex(readScalar(start, 2048)));
+  });
+
+  it("is used by finalize() for long outputs of multi-chunk inputs", () => {
+    const hasher = createHasher().update(input);
+    const xof = createHasher().update(input).finalizeXof();
+    const expected = new Uint8Array(4096);
+    for (let i = 0; i < expected.length; i += 64) {
+      xof.readInto(expected, i, 64);
+    }
+    expect(toHex(hasher.finalize(4096))).toBe(toHex(expected));
+  });
+});